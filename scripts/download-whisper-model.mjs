@@ -0,0 +1,56 @@
+// Downloads the Whisper model used for audio transcription into
+// public/models, where the app loads it from. The app never fetches models
+// from the network itself, so run this once before `npm run dev` or
+// `npm run build` to enable audio transcription (files already downloaded
+// are kept). Without it, the app reports the model as not installed:
+//
+//   npm run models:whisper
+
+import { mkdir, writeFile, access } from 'fs/promises'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+// Keep in sync with WHISPER_MODEL in src/utils/speechRecognition.ts
+const MODEL = 'Xenova/whisper-tiny'
+const FILES = [
+  'config.json',
+  'generation_config.json',
+  'preprocessor_config.json',
+  'tokenizer.json',
+  'tokenizer_config.json',
+  'onnx/encoder_model_quantized.onnx',
+  'onnx/decoder_model_merged_quantized.onnx'
+]
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const modelDir = path.join(root, 'public', 'models', MODEL)
+
+for (const file of FILES) {
+  const target = path.join(modelDir, file)
+  try {
+    await access(target)
+    console.log(`✓ ${file} (already downloaded)`)
+    continue
+  } catch {
+    // Not downloaded yet
+  }
+
+  const url = `https://huggingface.co/${MODEL}/resolve/main/${file}`
+  let response
+  try {
+    response = await fetch(url)
+  } catch (error) {
+    response = { ok: false, status: error.cause?.code || error.message }
+  }
+  if (!response.ok) {
+    console.error(`Failed to download ${file}: ${response.status}`)
+    console.error(`Audio transcription needs the Whisper model in ${path.relative(root, modelDir)}.`)
+    console.error(`Download ${url} and the other files listed in scripts/download-whisper-model.mjs there by hand, or retry with network access.`)
+    process.exit(1)
+  }
+  await mkdir(path.dirname(target), { recursive: true })
+  await writeFile(target, Buffer.from(await response.arrayBuffer()))
+  console.log(`✓ ${file}`)
+}
+
+console.log(`Whisper model saved to ${path.relative(root, modelDir)}`)
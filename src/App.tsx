@@ -8,26 +8,32 @@ import Flashcards from './pages/Flashcards'
 import Settings from './pages/Settings'
 import { ContentProvider } from './components/ContentProvider'
 import { OllamaProvider } from './components/OllamaProvider'
+import { SettingsProvider } from './components/SettingsProvider'
+import { EmbeddingIndexProvider } from './components/EmbeddingIndexProvider'
 
 function App() {
   return (
-    <OllamaProvider>
-      <ContentProvider>
-        <Router>
-          <div className="min-h-screen bg-background">
-            <Routes>
-              <Route path="/" element={<HomePage />} />
-              <Route path="/dashboard" element={<StudyDashboard />} />
-              <Route path="/chat" element={<ChatTutor />} />
-              <Route path="/quiz" element={<QuizMode />} />
-              <Route path="/flashcards" element={<Flashcards />} />
-              <Route path="/settings" element={<Settings />} />
-            </Routes>
-            <Toaster position="top-right" />
-          </div>
-        </Router>
-      </ContentProvider>
-    </OllamaProvider>
+    <SettingsProvider>
+      <OllamaProvider>
+        <ContentProvider>
+          <EmbeddingIndexProvider>
+            <Router>
+              <div className="min-h-screen bg-background">
+                <Routes>
+                  <Route path="/" element={<HomePage />} />
+                  <Route path="/dashboard" element={<StudyDashboard />} />
+                  <Route path="/chat" element={<ChatTutor />} />
+                  <Route path="/quiz" element={<QuizMode />} />
+                  <Route path="/flashcards" element={<Flashcards />} />
+                  <Route path="/settings" element={<Settings />} />
+                </Routes>
+                <Toaster position="top-right" />
+              </div>
+            </Router>
+          </EmbeddingIndexProvider>
+        </ContentProvider>
+      </OllamaProvider>
+    </SettingsProvider>
   )
 }
 
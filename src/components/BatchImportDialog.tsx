@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Checkbox } from './ui/checkbox'
+import { Files } from 'lucide-react'
+
+interface BatchImportDialogProps {
+  open: boolean
+  files: File[]
+  // courseTitle is set when the files should be grouped into a course
+  onStart: (courseTitle?: string) => void
+  onCancel: () => void
+}
+
+export const BatchImportDialog: React.FC<BatchImportDialogProps> = ({ open, files, onStart, onCancel }) => {
+  const [groupAsCourse, setGroupAsCourse] = useState(false)
+  const [courseTitle, setCourseTitle] = useState('')
+
+  useEffect(() => {
+    if (open) {
+      setGroupAsCourse(false)
+      setCourseTitle('')
+    }
+  }, [open])
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (groupAsCourse && !courseTitle.trim()) return
+    onStart(groupAsCourse ? courseTitle.trim() : undefined)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Files className="h-5 w-5 mr-2" />
+              Import {files.length} Files
+            </DialogTitle>
+            <DialogDescription>
+              Files are imported in the background. Each one is added to your library as soon as it is ready.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ul className="my-4 max-h-40 overflow-y-auto text-sm text-gray-700 space-y-1">
+            {files.map((file, index) => (
+              <li key={`${file.name}-${index}`} className="truncate">{file.name}</li>
+            ))}
+          </ul>
+
+          <div className="space-y-3 mb-6">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="group-as-course"
+                checked={groupAsCourse}
+                onCheckedChange={(checked) => setGroupAsCourse(checked === true)}
+              />
+              <Label htmlFor="group-as-course">Group into a course</Label>
+            </div>
+            {groupAsCourse && (
+              <Input
+                placeholder="Course name, e.g. Linear Algebra"
+                autoFocus
+                value={courseTitle}
+                onChange={(e) => setCourseTitle(e.target.value)}
+              />
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={groupAsCourse && !courseTitle.trim()}>
+              Start Import
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react'
+import { ContentImage } from '../types/content'
+import { cn } from '../lib/utils'
+
+interface ContentImageViewProps {
+  image: ContentImage
+  alt: string
+  className?: string
+}
+
+// Shows a stored image through an object URL that lives as long as the view
+export const ContentImageView: React.FC<ContentImageViewProps> = ({ image, alt, className }) => {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(image.blob)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [image.blob])
+
+  if (!url) return null
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" title="Open the original image">
+      <img
+        src={url}
+        alt={alt}
+        width={image.width}
+        height={image.height}
+        className={cn('rounded-lg border bg-gray-50 object-contain w-full h-auto', className)}
+      />
+    </a>
+  )
+}
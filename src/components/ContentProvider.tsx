@@ -1,28 +1,112 @@
-import React, { useState, ReactNode } from 'react'
+import React, { useState, useEffect, ReactNode } from 'react'
 import { ContentContext } from '../contexts/ContentContext'
 import { StudyContent } from '../types/content'
+import {
+  loadContents,
+  saveContent,
+  updateStoredContent,
+  deleteStoredContent
+} from '../utils/contentStorage'
+import { toast } from 'sonner'
+
+const CURRENT_CONTENT_KEY = 'youlearn.currentContentId'
+
+const rememberCurrentContent = (id: string | null) => {
+  try {
+    if (id) {
+      localStorage.setItem(CURRENT_CONTENT_KEY, id)
+    } else {
+      localStorage.removeItem(CURRENT_CONTENT_KEY)
+    }
+  } catch (error) {
+    // Storage can be disabled (private mode) - selection just won't survive a reload
+  }
+}
+
+const recallCurrentContent = (): string | null => {
+  try {
+    return localStorage.getItem(CURRENT_CONTENT_KEY)
+  } catch (error) {
+    return null
+  }
+}
+
+// Ids are creation timestamps, bumped when several items are added in the
+// same millisecond (batch imports)
+let lastContentId = 0
+const createContentId = (): string => {
+  lastContentId = Math.max(Date.now(), lastContentId + 1)
+  return lastContentId.toString()
+}
 
 export const ContentProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [contents, setContents] = useState<StudyContent[]>([])
-  const [currentContent, setCurrentContent] = useState<StudyContent | null>(null)
+  const [currentContent, setCurrentContentState] = useState<StudyContent | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  // Hydrate the library from IndexedDB once on startup
+  useEffect(() => {
+    let cancelled = false
+
+    loadContents()
+      .then(stored => {
+        if (cancelled) return
+        // Keep content added while the library was still loading - it is
+        // saved already, but not part of what was read
+        setContents(prev => [
+          ...stored,
+          ...prev.filter(content => !stored.some(storedContent => storedContent.id === content.id))
+        ])
+        const currentId = recallCurrentContent()
+        setCurrentContentState(prev => prev || stored.find(content => content.id === currentId) || null)
+      })
+      .catch(error => {
+        console.error('Failed to load saved content:', error)
+        toast.error('Could not load your saved library. New content will not be saved.')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const setCurrentContent = (content: StudyContent | null) => {
+    setCurrentContentState(content)
+    rememberCurrentContent(content?.id || null)
+  }
 
   const addContent = (content: Omit<StudyContent, 'id' | 'createdAt'>) => {
     const newContent: StudyContent = {
       ...content,
-      id: Date.now().toString(),
+      id: createContentId(),
       createdAt: new Date()
     }
     setContents(prev => [...prev, newContent])
     setCurrentContent(newContent)
+
+    saveContent(newContent).catch(error => {
+      console.error('Failed to save content:', error)
+      toast.error('Failed to save content. It will be lost when you close the page.')
+    })
+
+    return newContent
   }
 
   const updateContent = (id: string, updates: Partial<StudyContent>) => {
-    setContents(prev => prev.map(content => 
+    setContents(prev => prev.map(content =>
       content.id === id ? { ...content, ...updates } : content
     ))
     if (currentContent?.id === id) {
-      setCurrentContent(prev => prev ? { ...prev, ...updates } : null)
+      setCurrentContentState(prev => prev ? { ...prev, ...updates } : null)
     }
+
+    updateStoredContent(id, updates).catch(error => {
+      console.error('Failed to save content changes:', error)
+      toast.error('Failed to save changes')
+    })
   }
 
   const deleteContent = (id: string) => {
@@ -30,12 +114,18 @@ export const ContentProvider: React.FC<{ children: ReactNode }> = ({ children })
     if (currentContent?.id === id) {
       setCurrentContent(null)
     }
+
+    deleteStoredContent(id).catch(error => {
+      console.error('Failed to delete content:', error)
+      toast.error('Failed to delete content from storage')
+    })
   }
 
   return (
     <ContentContext.Provider value={{
       contents,
       currentContent,
+      isLoading,
       addContent,
       setCurrentContent,
       updateContent,
@@ -44,4 +134,4 @@ export const ContentProvider: React.FC<{ children: ReactNode }> = ({ children })
       {children}
     </ContentContext.Provider>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,148 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback, ReactNode } from 'react'
+import {
+  EmbeddingIndexContext,
+  IndexState,
+  IndexSearchOptions,
+  LibrarySearchResult
+} from '../contexts/EmbeddingIndexContext'
+import { useContent } from '../hooks/useContent'
+import { useOllama } from '../hooks/useOllama'
+import { EmbeddingIndex, StudyContent } from '../types/content'
+import { hashText, syncEmbeddingIndex, searchEmbeddingIndex } from '../utils/embeddingIndex'
+
+const IDLE_STATE: IndexState = { status: 'idle', progress: null, error: null }
+
+// Keeps the vector index of every library item in sync with its text in the
+// background, embedding only the passages that changed since it was last indexed.
+// Used by the tutor and library search; summaries, flashcards and quizzes read the
+// whole text, so they don't depend on the index.
+export const EmbeddingIndexProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { contents } = useContent()
+  const { embed, embeddingModel, isConnected } = useOllama()
+  const [states, setStates] = useState<Record<string, IndexState>>({})
+  const indexesRef = useRef(new Map<string, EmbeddingIndex>())
+  // Text each item was last indexed from, so unchanged items are skipped
+  const indexedTextRef = useRef(new Map<string, string>())
+  const indexPendingRef = useRef<(() => void) | null>(null)
+
+  // The provider recreates embed on every render - read it through a ref so
+  // indexing is not restarted each time
+  const embedRef = useRef(embed)
+  useEffect(() => {
+    embedRef.current = embed
+  }, [embed])
+
+  const contentsRef = useRef(contents)
+  useEffect(() => {
+    contentsRef.current = contents
+  }, [contents])
+
+  // Only the text matters for the index, not summaries or chat history
+  const textSignature = useMemo(
+    () => contents.map(content => `${content.id}:${hashText(content.content)}`).join(','),
+    [contents]
+  )
+
+  useEffect(() => {
+    indexesRef.current.clear()
+    indexedTextRef.current.clear()
+    setStates({})
+
+    if (!isConnected) return
+
+    const controller = new AbortController()
+    let isRunning = false
+
+    const setIndexState = (id: string, state: IndexState) => {
+      if (!controller.signal.aborted) setStates(prev => ({ ...prev, [id]: state }))
+    }
+
+    // One item at a time, picking up items added or edited while it runs
+    const indexPending = async () => {
+      if (isRunning) return
+      isRunning = true
+
+      let source: StudyContent | undefined
+      while (
+        !controller.signal.aborted &&
+        (source = contentsRef.current.find(content => indexedTextRef.current.get(content.id) !== content.content))
+      ) {
+        const { id, content: text } = source
+        indexedTextRef.current.set(id, text)
+        indexesRef.current.delete(id)
+        setIndexState(id, { status: 'indexing', progress: null, error: null })
+
+        try {
+          const index = await syncEmbeddingIndex(source, {
+            model: embeddingModel,
+            embed: (texts, signal) => embedRef.current(texts, signal),
+            onProgress: progress => setIndexState(id, { status: 'indexing', progress, error: null }),
+            signal: controller.signal
+          })
+          if (controller.signal.aborted) break
+          // Deleted while it was being indexed
+          if (indexedTextRef.current.get(id) === text) {
+            indexesRef.current.set(id, index)
+            setIndexState(id, { status: 'ready', progress: null, error: null })
+          }
+        } catch (error) {
+          if (controller.signal.aborted) break
+          console.warn(`Failed to build embedding index for ${source.title}:`, error)
+          setIndexState(id, {
+            status: 'error',
+            progress: null,
+            error: error instanceof Error ? error.message : 'Failed to build embedding index'
+          })
+        }
+      }
+
+      isRunning = false
+    }
+
+    indexPendingRef.current = () => {
+      indexPending()
+    }
+    indexPending()
+
+    return () => {
+      controller.abort()
+      indexPendingRef.current = null
+    }
+  }, [embeddingModel, isConnected])
+
+  // Index imported and edited content, and forget deleted content
+  useEffect(() => {
+    const ids = new Set(contentsRef.current.map(content => content.id))
+    for (const id of [...indexedTextRef.current.keys()]) {
+      if (ids.has(id)) continue
+      indexedTextRef.current.delete(id)
+      indexesRef.current.delete(id)
+    }
+    indexPendingRef.current?.()
+  }, [textSignature])
+
+  const getIndexState = useCallback((contentId: string) => states[contentId] || IDLE_STATE, [states])
+
+  const search = useCallback(async (
+    query: string,
+    { contentId, limit = 4 }: IndexSearchOptions = {}
+  ): Promise<LibrarySearchResult[] | null> => {
+    const indexes = contentId
+      ? [indexesRef.current.get(contentId)].filter((index): index is EmbeddingIndex => !!index)
+      : [...indexesRef.current.values()]
+    if (indexes.length === 0) return null
+
+    const [queryEmbedding] = await embedRef.current([query])
+    return indexes
+      .flatMap(index => searchEmbeddingIndex(index, queryEmbedding, limit)
+        .map(result => ({ ...result, contentId: index.contentId })))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }, [])
+
+  return (
+    <EmbeddingIndexContext.Provider value={{ getIndexState, search }}>
+      {children}
+    </EmbeddingIndexContext.Provider>
+  )
+}
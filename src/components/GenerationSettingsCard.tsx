@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { useSettings } from '../hooks/useSettings'
+import { useOllama } from '../hooks/useOllama'
+import { SlidersHorizontal } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  GenerationParameters,
+  GenerationPresets,
+  GenerationTask,
+  GENERATION_TASKS
+} from '../types/settings'
+
+type ParameterField = keyof GenerationParameters
+type PresetForm = Record<GenerationTask, Record<ParameterField, string>>
+
+const TASK_LABELS: Record<GenerationTask, string> = {
+  summary: 'Summaries',
+  flashcards: 'Flashcards',
+  quiz: 'Quizzes',
+  tutor: 'Tutor answers'
+}
+
+interface FieldSpec {
+  label: string
+  min: number
+  max: number
+  step: number
+  integer: boolean
+  hint: string
+}
+
+const FIELDS: Record<ParameterField, FieldSpec> = {
+  temperature: { label: 'Temperature', min: 0, max: 2, step: 0.1, integer: false, hint: '0 to 2' },
+  topP: { label: 'Top P', min: 0, max: 1, step: 0.05, integer: false, hint: '0 to 1' },
+  numCtx: { label: 'Context (tokens)', min: 256, max: 131072, step: 256, integer: true, hint: '256 to 131072, empty for the model default' },
+  numPredict: { label: 'Max output', min: -1, max: 32768, step: 1, integer: true, hint: '-1 (no limit) to 32768' },
+  seed: { label: 'Seed', min: 0, max: 2 ** 31 - 1, step: 1, integer: true, hint: 'empty for random' }
+}
+
+const PARAMETER_FIELDS = Object.keys(FIELDS) as ParameterField[]
+
+const toForm = (presets: GenerationPresets): PresetForm =>
+  Object.fromEntries(GENERATION_TASKS.map(task => [
+    task,
+    Object.fromEntries(PARAMETER_FIELDS.map(field => [field, String(presets[task][field] ?? '')]))
+  ])) as PresetForm
+
+// Undefined when the value is out of range; an empty seed is null (a random
+// one), an empty context null (the model's own)
+const parseField = (field: ParameterField, value: string): number | null | undefined => {
+  if ((field === 'seed' || field === 'numCtx') && !value.trim()) return null
+  const { min, max, integer } = FIELDS[field]
+  const number = Number(value)
+  if (!value.trim() || Number.isNaN(number) || number < min || number > max) return undefined
+  if (integer && !Number.isInteger(number)) return undefined
+  // Ollama treats num_predict 0 as "generate nothing"
+  if (field === 'numPredict' && number === 0) return undefined
+  return number
+}
+
+const parseForm = (form: PresetForm): GenerationPresets | null => {
+  const presets = {} as GenerationPresets
+  for (const task of GENERATION_TASKS) {
+    const parameters = {} as Record<ParameterField, number | null>
+    for (const field of PARAMETER_FIELDS) {
+      const value = parseField(field, form[task][field])
+      if (value === undefined) return null
+      parameters[field] = value
+    }
+    presets[task] = parameters as GenerationParameters
+  }
+  return presets
+}
+
+// Sampling parameters per task, saved separately for each Ollama model
+export const GenerationSettingsCard: React.FC = () => {
+  const { settings, getGenerationPresets, updateGenerationPresets, resetGenerationPresets } = useSettings()
+  const { models, selectedModel } = useOllama()
+  const [model, setModel] = useState(selectedModel)
+  const [form, setForm] = useState<PresetForm>(() => toForm(getGenerationPresets(selectedModel)))
+
+  // Unsaved edits are dropped when switching models
+  const savedPresets = getGenerationPresets(model)
+  useEffect(() => {
+    setForm(toForm(savedPresets))
+  }, [model, savedPresets])
+
+  // Installed models, plus configured ones that may not be pulled right now
+  const modelNames = [...new Set([
+    selectedModel,
+    ...models.map(installed => installed.name),
+    ...Object.keys(settings.generation)
+  ])].filter(Boolean)
+
+  const presets = parseForm(form)
+  const hasCustomPresets = model in settings.generation
+
+  const updateField = (task: GenerationTask, field: ParameterField, value: string) => {
+    setForm(prev => ({ ...prev, [task]: { ...prev[task], [field]: value } }))
+  }
+
+  const savePresets = () => {
+    if (!presets) return
+    updateGenerationPresets(model, presets)
+    toast.success(`Generation settings saved for ${model}`)
+  }
+
+  const resetPresets = () => {
+    resetGenerationPresets(model)
+    toast.success(`${model} uses the default generation settings`)
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <SlidersHorizontal className="h-5 w-5 mr-2" />
+          Generation
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-sm">
+          <Label htmlFor="generation-model">Model</Label>
+          <Select value={model} onValueChange={setModel}>
+            <SelectTrigger id="generation-model">
+              <SelectValue placeholder="Select a model" />
+            </SelectTrigger>
+            <SelectContent>
+              {modelNames.map(name => (
+                <SelectItem key={name} value={name}>
+                  {name}{name in settings.generation ? ' (customized)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="py-2 pr-3 font-medium">Task</th>
+                {PARAMETER_FIELDS.map(field => (
+                  <th key={field} className="py-2 pr-3 font-medium">{FIELDS[field].label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {GENERATION_TASKS.map(task => (
+                <tr key={task} className="border-t">
+                  <td className="py-2 pr-3 font-medium whitespace-nowrap">{TASK_LABELS[task]}</td>
+                  {PARAMETER_FIELDS.map(field => {
+                    const isValid = parseField(field, form[task][field]) !== undefined
+                    return (
+                      <td key={field} className="py-2 pr-3">
+                        <Input
+                          type="number"
+                          aria-label={`${TASK_LABELS[task]} ${FIELDS[field].label}`}
+                          title={FIELDS[field].hint}
+                          min={FIELDS[field].min}
+                          max={FIELDS[field].max}
+                          step={FIELDS[field].step}
+                          placeholder={field === 'seed' ? 'Random' : field === 'numCtx' ? 'Model default' : undefined}
+                          value={form[task][field]}
+                          onChange={(e) => updateField(task, field, e.target.value)}
+                          className={`min-w-[90px] ${isValid ? '' : 'border-red-500'}`}
+                        />
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {!presets && (
+          <p className="text-sm text-red-600">
+            Some values are out of range: temperature {FIELDS.temperature.hint}, top P {FIELDS.topP.hint},
+            context {FIELDS.numCtx.hint}, max output {FIELDS.numPredict.hint}, seed a whole number or empty.
+          </p>
+        )}
+        <p className="text-sm text-gray-500">
+          Lower temperatures give more focused, repeatable output; a fixed seed makes it fully repeatable.
+          A larger context lets long documents be summarized in fewer parts, but needs more memory.
+        </p>
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={resetPresets} disabled={!hasCustomPresets}>
+            Use Defaults
+          </Button>
+          <Button onClick={savePresets} disabled={!presets}>
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { ContentImageView } from './ContentImageView'
+import { ImageIcon, AlertTriangle } from 'lucide-react'
+import { ImageTextReview } from '../utils/fileImport'
+
+interface ImageTextReviewDialogProps {
+  review: ImageTextReview | null
+  onSave: (result: { title: string; text: string }) => void
+  onCancel: () => void
+}
+
+// Below this average confidence the text usually needs fixing by hand
+const LOW_CONFIDENCE = 70
+
+export const ImageTextReviewDialog: React.FC<ImageTextReviewDialogProps> = ({ review, onSave, onCancel }) => {
+  const [title, setTitle] = useState('')
+  const [text, setText] = useState('')
+
+  // Every new image starts from its recognized text
+  useEffect(() => {
+    if (review) {
+      setTitle(review.title)
+      setText(review.text)
+    }
+  }, [review])
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (text.trim()) {
+      onSave({ title, text })
+    }
+  }
+
+  return (
+    <Dialog open={review !== null} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-4xl">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <ImageIcon className="h-5 w-5 mr-2" />
+              Review Recognized Text
+            </DialogTitle>
+            <DialogDescription>
+              Correct any recognition mistakes in <span className="font-medium">{review?.fileName}</span> before saving.
+            </DialogDescription>
+          </DialogHeader>
+
+          {review && (
+            <div className="grid md:grid-cols-2 gap-4 my-6">
+              <div className="max-h-[60vh] overflow-y-auto">
+                <ContentImageView image={review.image} alt={review.fileName} />
+              </div>
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="image-title">Title</Label>
+                  <Input id="image-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="image-text">Text</Label>
+                  <Textarea
+                    id="image-text"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder="No text was recognized - type it here"
+                    className="min-h-[300px] font-mono text-sm"
+                  />
+                </div>
+                {review.confidence < LOW_CONFIDENCE && (
+                  <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <p>
+                      Recognition confidence is low ({Math.round(review.confidence)}%). Check the text carefully
+                      against the image.
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Discard
+            </Button>
+            <Button type="submit" disabled={!text.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
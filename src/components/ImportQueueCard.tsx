@@ -0,0 +1,77 @@
+import React from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Progress } from './ui/progress'
+import { ListChecks, X } from 'lucide-react'
+import { ImportQueueItem, ImportStatus } from '../hooks/useImportQueue'
+
+interface ImportQueueCardProps {
+  items: ImportQueueItem[]
+  isImporting: boolean
+  onCancel: () => void
+  onClear: () => void
+}
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  queued: 'Queued',
+  importing: 'Importing',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+}
+
+const getStatusVariant = (status: ImportStatus) => {
+  switch (status) {
+    case 'done': return 'default'
+    case 'failed': return 'destructive'
+    case 'importing': return 'secondary'
+    default: return 'outline'
+  }
+}
+
+export const ImportQueueCard: React.FC<ImportQueueCardProps> = ({ items, isImporting, onCancel, onClear }) => {
+  const finished = items.filter(item => item.status === 'done').length
+  const failed = items.filter(item => item.status === 'failed').length
+
+  return (
+    <Card className="mb-8 max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-lg">
+          <span className="flex items-center">
+            <ListChecks className="h-5 w-5 mr-2" />
+            Import Queue
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              {finished} of {items.length} imported{failed > 0 && `, ${failed} failed`}
+            </span>
+          </span>
+          {isImporting ? (
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="ghost" size="sm" onClick={onClear}>
+              Clear
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y">
+          {items.map(item => (
+            <div key={item.id} className="py-3">
+              <div className="flex items-center justify-between gap-4 mb-1">
+                <span className="text-sm font-medium truncate">{item.fileName}</span>
+                <Badge variant={getStatusVariant(item.status)}>{STATUS_LABELS[item.status]}</Badge>
+              </div>
+              {item.status === 'importing' && <Progress value={item.progress} className="h-2" />}
+              {item.error && <p className="text-sm text-red-600">{item.error}</p>}
+              {item.warning && <p className="text-sm text-amber-700">{item.warning}</p>}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
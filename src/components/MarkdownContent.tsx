@@ -0,0 +1,51 @@
+import React from 'react'
+import ReactMarkdown, { Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { cn } from '../lib/utils'
+
+interface MarkdownContentProps {
+  markdown: string
+  className?: string
+}
+
+// The app has no typography plugin - style each element to match the dashboard
+const components: Components = {
+  h1: ({ children }) => <h1 className="text-2xl font-bold text-gray-900 mt-6 mb-3">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-xl font-semibold text-gray-900 mt-5 mb-2">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-lg font-semibold text-gray-900 mt-4 mb-2">{children}</h3>,
+  h4: ({ children }) => <h4 className="font-semibold text-gray-900 mt-3 mb-1">{children}</h4>,
+  h5: ({ children }) => <h5 className="font-medium text-gray-900 mt-3 mb-1">{children}</h5>,
+  h6: ({ children }) => <h6 className="font-medium text-gray-700 mt-3 mb-1">{children}</h6>,
+  p: ({ children }) => <p className="mb-3 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-6 mb-3 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-6 mb-3 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-gray-200 pl-4 italic text-gray-600 mb-3">{children}</blockquote>
+  ),
+  a: ({ children, href }) => (
+    <a href={href} className="text-primary underline" target="_blank" rel="noopener noreferrer">{children}</a>
+  ),
+  pre: ({ children }) => (
+    <pre className="bg-gray-900 text-gray-100 rounded-lg p-4 mb-3 overflow-x-auto text-xs [&_code]:bg-transparent [&_code]:p-0">{children}</pre>
+  ),
+  // Code blocks reset this background through <pre>
+  code: ({ children, className }) => (
+    <code className={cn('font-mono bg-gray-100 rounded px-1', className)}>{children}</code>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto mb-3">
+      <table className="min-w-full border border-gray-200 text-left">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-gray-200 bg-gray-50 px-3 py-1.5 font-medium">{children}</th>,
+  td: ({ children }) => <td className="border border-gray-200 px-3 py-1.5">{children}</td>,
+  hr: () => <hr className="my-4 border-gray-200" />
+}
+
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ markdown, className }) => (
+  <div className={cn('text-sm text-gray-700', className)}>
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+      {markdown}
+    </ReactMarkdown>
+  </div>
+)
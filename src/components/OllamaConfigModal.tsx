@@ -27,9 +27,13 @@ export const OllamaConfigModal: React.FC<OllamaConfigModalProps> = ({ open, onOp
   const { 
     models, 
     selectedModel, 
+    embeddingModel,
+    visionModel,
     isConnected, 
     isLoading, 
     setSelectedModel, 
+    setEmbeddingModel,
+    setVisionModel,
     checkConnection, 
     loadModels,
     ollamaUrl,
@@ -285,6 +289,32 @@ export const OllamaConfigModal: React.FC<OllamaConfigModalProps> = ({ open, onOp
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="embedding-model">Embedding Model</Label>
+                  <Input
+                    id="embedding-model"
+                    value={embeddingModel}
+                    onChange={(e) => setEmbeddingModel(e.target.value)}
+                    placeholder="nomic-embed-text"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Used for semantic search over your content. Install it with <code>ollama pull {embeddingModel || 'nomic-embed-text'}</code>
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="vision-model">Vision Model</Label>
+                  <Input
+                    id="vision-model"
+                    value={visionModel}
+                    onChange={(e) => setVisionModel(e.target.value)}
+                    placeholder="llava"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Describes figures and diagrams in imported PDFs, when enabled in Settings. Install it with <code>ollama pull {visionModel || 'llava'}</code>
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label>Model Details</Label>
                   <div className="grid grid-cols-1 gap-2">
@@ -1,5 +1,16 @@
-import React, { useState, ReactNode } from 'react'
-import { OllamaContext } from '../contexts/OllamaContext'
+import React, { useState, useRef, ReactNode } from 'react'
+import {
+  OllamaContext,
+  OllamaMessage,
+  GenerationUsage,
+  ChatStreamOptions,
+  ChatOptions,
+  ChatResult,
+  GenerateOptions,
+  StreamOptions
+} from '../contexts/OllamaContext'
+import { GenerationParameters } from '../types/settings'
+import { readNDJSON } from '../utils/ndjson'
 
 interface OllamaModel {
   name: string
@@ -7,12 +18,58 @@ interface OllamaModel {
   modified_at: string
 }
 
+interface OllamaChatChunk {
+  message?: { role: string; content: string }
+  done?: boolean
+  error?: string
+  // Only on the final chunk; durations are in nanoseconds
+  prompt_eval_count?: number
+  eval_count?: number
+  total_duration?: number
+  load_duration?: number
+  prompt_eval_duration?: number
+  eval_duration?: number
+}
+
+const NANOSECONDS_PER_MS = 1e6
+
+const toOllamaOptions = ({ temperature, topP, numCtx, numPredict, seed }: GenerationParameters) => ({
+  temperature,
+  top_p: topP,
+  num_predict: numPredict,
+  ...(numCtx !== null && { num_ctx: numCtx }),
+  ...(seed !== null && { seed })
+})
+
+const toUsage = (chunk: OllamaChatChunk): GenerationUsage => ({
+  // Left out when Ollama reused the whole prompt from its cache
+  promptTokens: chunk.prompt_eval_count ?? 0,
+  responseTokens: chunk.eval_count ?? 0,
+  totalDuration: (chunk.total_duration ?? 0) / NANOSECONDS_PER_MS,
+  loadDuration: (chunk.load_duration ?? 0) / NANOSECONDS_PER_MS,
+  promptDuration: (chunk.prompt_eval_duration ?? 0) / NANOSECONDS_PER_MS,
+  responseDuration: (chunk.eval_duration ?? 0) / NANOSECONDS_PER_MS
+})
+
+// Abort a generation if no token arrives for this long
+const GENERATION_IDLE_TIMEOUT = 60000
+// Before the first token Ollama may be loading the model and reading a long
+// prompt, which takes minutes for large models on local hardware
+const FIRST_TOKEN_TIMEOUT = 10 * 60 * 1000
+
+// Ollama runs every request with this context window unless num_ctx is set,
+// regardless of how much the model itself supports
+const DEFAULT_NUM_CTX = 2048
+
 export const OllamaProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [models, setModels] = useState<OllamaModel[]>([])
   const [selectedModel, setSelectedModel] = useState('llama2')
+  const [embeddingModel, setEmbeddingModel] = useState('nomic-embed-text')
+  const [visionModel, setVisionModel] = useState('llava')
   const [isConnected, setIsConnected] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [ollamaUrl, setOllamaUrl] = useState('http://localhost:11434')
+  const contextLengthCache = useRef(new Map<string, number>())
   
   // Detect if we're running in a deployed environment
   const isDeployed = window.location.hostname !== 'localhost' && !window.location.hostname.includes('127.0.0.1')
@@ -85,63 +142,217 @@ export const OllamaProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   }
 
-  const generateText = async (prompt: string, context?: string): Promise<string> => {
+  // Usable context window for requests with the given num_ctx: at most what
+  // the selected model supports, read from /api/show. The requested size is
+  // trusted when the model info is unavailable. Without one, Ollama's default
+  // is assumed, as a Modelfile's num_ctx isn't known here.
+  const getContextLength = async (requestedNumCtx?: number | null): Promise<number> => {
+    const numCtx = requestedNumCtx ?? DEFAULT_NUM_CTX
+    const cached = contextLengthCache.current.get(selectedModel)
+    if (cached) return Math.min(cached, numCtx)
+
+    let modelContextLength = Infinity
+    try {
+      const response = await fetch(`${ollamaUrl}/api/show`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model: selectedModel }),
+        mode: 'cors'
+      })
+
+      if (response.ok) {
+        const data = await response.json()
+        // Keys are prefixed with the model architecture, e.g. "llama.context_length"
+        const key = Object.keys(data.model_info || {}).find(name => name.endsWith('.context_length'))
+        if (key) {
+          modelContextLength = data.model_info[key]
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to read model context length:', error)
+    }
+
+    contextLengthCache.current.set(selectedModel, modelContextLength)
+    return Math.min(modelContextLength, numCtx)
+  }
+
+  // Streams tokens from /api/chat. The timeout only fires when Ollama goes
+  // quiet, so long generations on slow machines keep running while tokens arrive.
+  const streamChat = async function* (
+    messages: OllamaMessage[],
+    options: ChatStreamOptions = {}
+  ): AsyncGenerator<string, GenerationUsage | undefined> {
+    const { signal, format, parameters, model = selectedModel } = options
+
     if (!isConnected) {
       throw new Error('Ollama is not connected. Please ensure Ollama is running locally.')
     }
 
-    const fullPrompt = context ? `Context: ${context}\n\nQuestion: ${prompt}` : prompt
+    if (signal?.aborted) {
+      throw new DOMException('Text generation was cancelled.', 'AbortError')
+    }
+
+    // Closing the connection is what tells Ollama to stop generating, so both
+    // the idle timeout and the caller's signal abort the same fetch
+    const controller = new AbortController()
+    const abortFromCaller = () => controller.abort()
+    signal?.addEventListener('abort', abortFromCaller)
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    const resetTimeout = (timeout = GENERATION_IDLE_TIMEOUT) => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(() => controller.abort(), timeout)
+    }
 
     try {
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 30000) // 30 second timeout for generation
-      
-      const response = await fetch(`${ollamaUrl}/api/generate`, {
+      resetTimeout(FIRST_TOKEN_TIMEOUT)
+
+      const response = await fetch(`${ollamaUrl}/api/chat`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model: selectedModel,
-          prompt: fullPrompt,
-          stream: false
+          model,
+          messages,
+          stream: true,
+          ...(format && { format }),
+          ...(parameters && { options: toOllamaOptions(parameters) })
         }),
         signal: controller.signal,
         mode: 'cors'
       })
 
-      clearTimeout(timeoutId)
-
       if (!response.ok) {
+        if (response.status === 404) {
+          throw new Error(`Model "${model}" is not installed. Run: ollama pull ${model}`)
+        }
         throw new Error(`Failed to generate text: ${response.status} ${response.statusText}`)
       }
 
-      const data = await response.json()
-      return data.response || ''
+      for await (const chunk of readNDJSON<OllamaChatChunk>(response)) {
+        resetTimeout()
+        if (chunk.error) {
+          throw new Error(chunk.error)
+        }
+        if (chunk.message?.content) {
+          yield chunk.message.content
+        }
+        if (chunk.done) return toUsage(chunk)
+      }
+      return undefined
     } catch (error) {
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
+          if (signal?.aborted) {
+            throw new DOMException('Text generation was cancelled.', 'AbortError')
+          }
           throw new Error('Text generation timed out. Please try again.')
         }
         console.error('Text generation failed:', error.message)
         throw new Error(`Text generation failed: ${error.message}`)
       }
       throw error
+    } finally {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', abortFromCaller)
+      // Stops Ollama from generating further if the consumer stopped reading early
+      controller.abort()
+    }
+  }
+
+  // One request per text - /api/embeddings takes a single prompt
+  const embed = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+    if (!isConnected) {
+      throw new Error('Ollama is not connected. Please ensure Ollama is running locally.')
+    }
+
+    const embeddings: number[][] = []
+    for (const text of texts) {
+      const response = await fetch(`${ollamaUrl}/api/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: embeddingModel,
+          prompt: text
+        }),
+        signal,
+        mode: 'cors'
+      })
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new Error(`Embedding model "${embeddingModel}" is not installed. Run: ollama pull ${embeddingModel}`)
+        }
+        throw new Error(`Failed to create embeddings: ${response.status} ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      if (!Array.isArray(data.embedding) || data.embedding.length === 0) {
+        throw new Error(`Model "${embeddingModel}" did not return an embedding. Is it an embedding model?`)
+      }
+      embeddings.push(data.embedding)
     }
+    return embeddings
+  }
+
+  const chat = async (messages: OllamaMessage[], options: ChatOptions = {}): Promise<ChatResult> => {
+    const stream = streamChat(messages, options)
+    let content = ''
+    // Read by hand - for await drops the generator's return value (the usage)
+    try {
+      let next = await stream.next()
+      while (!next.done) {
+        content += next.value
+        options.onToken?.(next.value, content)
+        next = await stream.next()
+      }
+      return { content, usage: next.value }
+    } finally {
+      // Closes the request if onToken threw, like for await would
+      await stream.return(undefined)
+    }
+  }
+
+  const toMessages = (prompt: string, { system, images }: StreamOptions): OllamaMessage[] => [
+    ...(system ? [{ role: 'system' as const, content: system }] : []),
+    { role: 'user', content: prompt, ...(images?.length && { images }) }
+  ]
+
+  const streamText = async function* (prompt: string, options: StreamOptions = {}): AsyncGenerator<string> {
+    yield* streamChat(toMessages(prompt, options), options)
+  }
+
+  const generateText = async (prompt: string, options: GenerateOptions = {}): Promise<string> => {
+    const { content } = await chat(toMessages(prompt, options), options)
+    return content
   }
 
   return (
     <OllamaContext.Provider value={{
       models,
       selectedModel,
+      embeddingModel,
+      visionModel,
       isConnected,
       isLoading,
       ollamaUrl,
       setSelectedModel,
+      setEmbeddingModel,
+      setVisionModel,
       setOllamaUrl,
       checkConnection,
       loadModels,
-      generateText
+      getContextLength,
+      embed,
+      streamChat,
+      chat,
+      generateText,
+      streamText
     }}>
       {children}
     </OllamaContext.Provider>
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { FileText, AlertTriangle } from 'lucide-react'
+import { parsePageRanges } from '../utils/pageRanges'
+
+interface PDFImportDialogProps {
+  open: boolean
+  fileName: string
+  pageCount: number
+  // Page limit from Settings
+  maxPages: number
+  onImport: (pageNumbers: number[]) => void
+  onCancel: () => void
+}
+
+export const PDFImportDialog: React.FC<PDFImportDialogProps> = ({
+  open,
+  fileName,
+  pageCount,
+  maxPages,
+  onImport,
+  onCancel
+}) => {
+  const [pageRanges, setPageRanges] = useState('')
+
+  // Every new file starts with all of its pages selected
+  useEffect(() => {
+    if (open) {
+      setPageRanges(pageCount > 1 ? `1-${pageCount}` : '1')
+    }
+  }, [open, pageCount])
+
+  const { pages, error } = parsePageRanges(pageRanges, pageCount)
+  const skippedPages = pages.slice(maxPages)
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!error) {
+      onImport(pages)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <FileText className="h-5 w-5 mr-2" />
+              Import PDF
+            </DialogTitle>
+            <DialogDescription>
+              <span className="font-medium">{fileName}</span> has {pageCount} {pageCount === 1 ? 'page' : 'pages'}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 my-6">
+            <Label htmlFor="pdf-pages">Pages to import</Label>
+            <Input
+              id="pdf-pages"
+              placeholder="e.g. 12-48, 60"
+              value={pageRanges}
+              onChange={(e) => setPageRanges(e.target.value)}
+            />
+            {error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : (
+              <p className="text-sm text-gray-500">
+                {pages.length} of {pageCount} pages selected
+              </p>
+            )}
+            {!error && skippedPages.length > 0 && (
+              <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <p>
+                  Only the first {maxPages} selected pages will be imported. Pages from {skippedPages[0]} on
+                  ({skippedPages.length} {skippedPages.length === 1 ? 'page' : 'pages'}) will be skipped.
+                  You can raise the page limit in Settings.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!!error}>
+              Import {Math.min(pages.length, maxPages) || ''} {pages.length === 1 ? 'Page' : 'Pages'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
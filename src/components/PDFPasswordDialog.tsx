@@ -0,0 +1,81 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Lock } from 'lucide-react'
+import { PasswordRequestReason } from '../utils/pdfProcessor'
+
+interface PDFPasswordDialogProps {
+  open: boolean
+  fileName: string
+  reason: PasswordRequestReason
+  onSubmit: (password: string) => void
+  onCancel: () => void
+}
+
+export const PDFPasswordDialog: React.FC<PDFPasswordDialogProps> = ({ open, fileName, reason, onSubmit, onCancel }) => {
+  const [password, setPassword] = useState('')
+
+  // Start empty on every prompt, including retries after a wrong password
+  useEffect(() => {
+    if (open) {
+      setPassword('')
+    }
+  }, [open, reason])
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (password) {
+      onSubmit(password)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Lock className="h-5 w-5 mr-2" />
+              Password Required
+            </DialogTitle>
+            <DialogDescription>
+              <span className="font-medium">{fileName}</span> is password protected. Enter its password to import it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 my-6">
+            <Label htmlFor="pdf-password">Password</Label>
+            <Input
+              id="pdf-password"
+              type="password"
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            {reason === 'incorrect' && (
+              <p className="text-sm text-red-600">Incorrect password. Please try again.</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!password}>
+              Unlock
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
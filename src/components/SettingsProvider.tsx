@@ -0,0 +1,86 @@
+import React, { useState, ReactNode } from 'react'
+import { SettingsContext } from '../contexts/SettingsContext'
+import {
+  AppSettings,
+  ImportSettings,
+  GenerationPresets,
+  DEFAULT_SETTINGS,
+  DEFAULT_GENERATION_PRESETS,
+  GENERATION_TASKS
+} from '../types/settings'
+
+const SETTINGS_KEY = 'youlearn.settings'
+
+// Tasks added in later versions get their default parameters
+const withDefaultPresets = (presets: Partial<GenerationPresets>): GenerationPresets =>
+  Object.fromEntries(GENERATION_TASKS.map(task => [
+    task,
+    { ...DEFAULT_GENERATION_PRESETS[task], ...presets[task] }
+  ])) as GenerationPresets
+
+// Stored settings are merged over the defaults, so settings added in later
+// versions get their default value
+const loadSettings = (): AppSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}')
+    const generation: Record<string, Partial<GenerationPresets>> = stored.generation || {}
+    return {
+      import: { ...DEFAULT_SETTINGS.import, ...stored.import },
+      generation: Object.fromEntries(
+        Object.entries(generation).map(([model, presets]) => [model, withDefaultPresets(presets)])
+      )
+    }
+  } catch (error) {
+    return DEFAULT_SETTINGS
+  }
+}
+
+const storeSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  } catch (error) {
+    // Storage can be disabled (private mode) - settings just won't survive a reload
+  }
+}
+
+export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<AppSettings>(loadSettings)
+
+  const saveSettings = (updated: AppSettings) => {
+    setSettings(updated)
+    storeSettings(updated)
+  }
+
+  const updateImportSettings = (updates: Partial<ImportSettings>) => {
+    saveSettings({ ...settings, import: { ...settings.import, ...updates } })
+  }
+
+  const getGenerationPresets = (model: string): GenerationPresets =>
+    settings.generation[model] || DEFAULT_GENERATION_PRESETS
+
+  const updateGenerationPresets = (model: string, presets: GenerationPresets) => {
+    saveSettings({ ...settings, generation: { ...settings.generation, [model]: presets } })
+  }
+
+  const resetGenerationPresets = (model: string) => {
+    const { [model]: _removed, ...generation } = settings.generation
+    saveSettings({ ...settings, generation })
+  }
+
+  const resetSettings = () => {
+    saveSettings(DEFAULT_SETTINGS)
+  }
+
+  return (
+    <SettingsContext.Provider value={{
+      settings,
+      updateImportSettings,
+      getGenerationPresets,
+      updateGenerationPresets,
+      resetGenerationPresets,
+      resetSettings
+    }}>
+      {children}
+    </SettingsContext.Provider>
+  )
+}
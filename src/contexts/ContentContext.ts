@@ -4,7 +4,8 @@ import { StudyContent } from '../types/content'
 interface ContentContextType {
   contents: StudyContent[]
   currentContent: StudyContent | null
-  addContent: (content: Omit<StudyContent, 'id' | 'createdAt'>) => void
+  isLoading: boolean
+  addContent: (content: Omit<StudyContent, 'id' | 'createdAt'>) => StudyContent
   setCurrentContent: (content: StudyContent | null) => void
   updateContent: (id: string, updates: Partial<StudyContent>) => void
   deleteContent: (id: string) => void
@@ -0,0 +1,30 @@
+import { createContext } from 'react'
+import { IndexingProgress } from '../utils/embeddingIndex'
+import { RetrievedChunk } from '../utils/retrieval'
+
+export type IndexStatus = 'idle' | 'indexing' | 'ready' | 'error'
+
+export interface IndexState {
+  status: IndexStatus
+  progress: IndexingProgress | null
+  error: string | null
+}
+
+export interface LibrarySearchResult extends RetrievedChunk {
+  contentId: string
+}
+
+export interface IndexSearchOptions {
+  // Limits the search to one content item, the whole library when omitted
+  contentId?: string
+  limit?: number
+}
+
+interface EmbeddingIndexContextType {
+  getIndexState: (contentId: string) => IndexState
+  // Resolves to null when none of the searched content is indexed yet, so
+  // callers can fall back to keyword search
+  search: (query: string, options?: IndexSearchOptions) => Promise<LibrarySearchResult[] | null>
+}
+
+export const EmbeddingIndexContext = createContext<EmbeddingIndexContextType | undefined>(undefined)
@@ -1,4 +1,5 @@
 import { createContext } from 'react'
+import { GenerationParameters } from '../types/settings'
 
 interface OllamaModel {
   name: string
@@ -6,17 +7,82 @@ interface OllamaModel {
   modified_at: string
 }
 
+export type MessageRole = 'system' | 'user' | 'assistant'
+
+export interface OllamaMessage {
+  role: MessageRole
+  content: string
+  // Base64-encoded images for vision models such as llava
+  images?: string[]
+}
+
+// Token counts and timings Ollama reports with the last chunk, durations in milliseconds
+export interface GenerationUsage {
+  promptTokens: number
+  responseTokens: number
+  totalDuration: number
+  loadDuration: number
+  promptDuration: number
+  responseDuration: number
+}
+
+export interface ChatStreamOptions {
+  // Aborting rejects with an AbortError and closes the request so Ollama stops generating
+  signal?: AbortSignal
+  // 'json' or a JSON schema the response must follow
+  format?: 'json' | object
+  // Overrides the selected model for this request, e.g. with the vision model
+  model?: string
+  // Sampling and context size, model defaults when omitted
+  parameters?: GenerationParameters
+}
+
+export interface ChatOptions extends ChatStreamOptions {
+  // Called for every streamed chunk with the token and the text generated so far
+  onToken?: (token: string, text: string) => void
+}
+
+export interface ChatResult {
+  content: string
+  // Missing when the stream ended without Ollama's final chunk
+  usage?: GenerationUsage
+}
+
+// Single-prompt requests, sent as one user message after the system prompt
+export interface StreamOptions extends ChatStreamOptions {
+  // Instructions for the feature making the request (see utils/systemPrompts.ts)
+  system?: string
+  // Attached to the prompt for vision models
+  images?: string[]
+}
+
+export interface GenerateOptions extends StreamOptions {
+  // Called for every streamed chunk with the token and the text generated so far
+  onToken?: (token: string, text: string) => void
+}
+
 interface OllamaContextType {
   models: OllamaModel[]
   selectedModel: string
+  embeddingModel: string
+  visionModel: string
   isConnected: boolean
   isLoading: boolean
   ollamaUrl: string
   setSelectedModel: (model: string) => void
+  setEmbeddingModel: (model: string) => void
+  setVisionModel: (model: string) => void
   setOllamaUrl: (url: string) => void
   checkConnection: () => Promise<boolean>
   loadModels: () => Promise<void>
-  generateText: (prompt: string, context?: string) => Promise<string>
+  // The context window a request with this num_ctx gets, 2048 by default
+  getContextLength: (numCtx?: number | null) => Promise<number>
+  embed: (texts: string[], signal?: AbortSignal) => Promise<number[][]>
+  // Yields tokens and returns the usage stats once the response is complete
+  streamChat: (messages: OllamaMessage[], options?: ChatStreamOptions) => AsyncGenerator<string, GenerationUsage | undefined>
+  chat: (messages: OllamaMessage[], options?: ChatOptions) => Promise<ChatResult>
+  generateText: (prompt: string, options?: GenerateOptions) => Promise<string>
+  streamText: (prompt: string, options?: StreamOptions) => AsyncGenerator<string>
 }
 
-export const OllamaContext = createContext<OllamaContextType | undefined>(undefined)
\ No newline at end of file
+export const OllamaContext = createContext<OllamaContextType | undefined>(undefined)
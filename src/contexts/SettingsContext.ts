@@ -0,0 +1,14 @@
+import { createContext } from 'react'
+import { AppSettings, ImportSettings, GenerationPresets } from '../types/settings'
+
+interface SettingsContextType {
+  settings: AppSettings
+  updateImportSettings: (updates: Partial<ImportSettings>) => void
+  // Presets of the given model, or the defaults when it has none saved
+  getGenerationPresets: (model: string) => GenerationPresets
+  updateGenerationPresets: (model: string, presets: GenerationPresets) => void
+  resetGenerationPresets: (model: string) => void
+  resetSettings: () => void
+}
+
+export const SettingsContext = createContext<SettingsContextType | undefined>(undefined)
@@ -0,0 +1,21 @@
+import { useCallback } from 'react'
+import { useLibraryIndex } from './useLibraryIndex'
+import { StudyContent } from '../types/content'
+import { RetrievedChunk } from '../utils/retrieval'
+
+// Index status and semantic search for one content item - the index itself is
+// kept up to date by the EmbeddingIndexProvider
+export const useEmbeddingIndex = (content: StudyContent | null) => {
+  const { getIndexState, search: searchLibrary } = useLibraryIndex()
+  const contentId = content?.id
+  // Nothing is indexed under an empty id, so no content reads as idle
+  const { status, progress, error } = getIndexState(contentId ?? '')
+
+  // Resolves to null when no index is available, so callers can fall back to keyword search
+  const search = useCallback(async (query: string, limit = 4): Promise<RetrievedChunk[] | null> => {
+    if (!contentId) return null
+    return searchLibrary(query, { contentId, limit })
+  }, [contentId, searchLibrary])
+
+  return { status, progress, error, search }
+}
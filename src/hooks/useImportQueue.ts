@@ -0,0 +1,131 @@
+import { useState, useRef, useEffect } from 'react'
+import { useContent } from './useContent'
+import { useSettings } from './useSettings'
+import { useOllama } from './useOllama'
+import { CourseRef, StudyContent } from '../types/content'
+import { importFile, getImportErrorMessage, isImportCancelled, FileImportOptions } from '../utils/fileImport'
+import { runWithConcurrency } from '../utils/concurrency'
+import { FIGURE_SYSTEM_PROMPT } from '../utils/systemPrompts'
+import { PasswordRequestReason } from '../utils/pdfProcessor'
+
+export type ImportStatus = 'queued' | 'importing' | 'done' | 'failed' | 'cancelled'
+
+export interface ImportQueueItem {
+  id: string
+  fileName: string
+  status: ImportStatus
+  progress: number
+  error?: string
+  // Set when the file was imported, but not completely
+  warning?: string
+}
+
+// Each PDF gets its own extraction worker - two at a time keeps large
+// batches from exhausting memory while still overlapping OCR and parsing
+const IMPORT_CONCURRENCY = 2
+
+interface ImportQueueOptions {
+  onPasswordRequired: (fileName: string, reason: PasswordRequestReason, signal: AbortSignal) => Promise<string | null>
+  onReviewImageText?: FileImportOptions['onReviewImageText']
+}
+
+// Imports several files in the background, tracking progress and errors per file
+export const useImportQueue = ({ onPasswordRequired, onReviewImageText }: ImportQueueOptions) => {
+  const { addContent } = useContent()
+  const { settings } = useSettings()
+  const { generateText, visionModel } = useOllama()
+  const [items, setItems] = useState<ImportQueueItem[]>([])
+  const [isImporting, setIsImporting] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Stop importing when leaving the page
+  useEffect(() => {
+    return () => controllerRef.current?.abort()
+  }, [])
+
+  const updateItem = (id: string, updates: Partial<ImportQueueItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item))
+  }
+
+  // A file can warn more than once, e.g. about skipped pages and undescribed figures
+  const addWarning = (id: string, warning: string) => {
+    setItems(prev => prev.map(item =>
+      item.id === id ? { ...item, warning: item.warning ? `${item.warning} ${warning}` : warning } : item
+    ))
+  }
+
+  // Resolves with the content that was imported, in file order
+  const importFiles = async (files: File[], course?: CourseRef): Promise<StudyContent[]> => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    const signal = controller.signal
+    const describeFigure = settings.import.describeFigures
+      ? (prompt: string, image: string) => generateText(prompt, {
+          system: FIGURE_SYSTEM_PROMPT,
+          images: [image],
+          model: visionModel,
+          signal
+        })
+      : undefined
+
+    const queued: ImportQueueItem[] = files.map((file, index) => ({
+      id: `${Date.now()}-${index}`,
+      fileName: file.name,
+      status: 'queued',
+      progress: 0
+    }))
+    setItems(queued)
+    setIsImporting(true)
+
+    const imported: (StudyContent | undefined)[] = []
+
+    try {
+      await runWithConcurrency(files, IMPORT_CONCURRENCY, async (file, index) => {
+        const { id } = queued[index]
+        if (signal.aborted) {
+          updateItem(id, { status: 'cancelled' })
+          return
+        }
+
+        updateItem(id, { status: 'importing' })
+        try {
+          const content = await importFile(file, {
+            signal,
+            maxFileSize: settings.import.maxFileSizeMB * 1024 * 1024,
+            maxPages: settings.import.maxPages,
+            onProgress: (progress) => updateItem(id, { progress }),
+            onPasswordRequired: (reason, promptSignal) => onPasswordRequired(file.name, reason, promptSignal),
+            onReviewImageText,
+            describeFigure,
+            onWarning: (warning) => addWarning(id, warning)
+          })
+          imported[index] = addContent(course ? { ...content, course } : content)
+          updateItem(id, { status: 'done', progress: 100 })
+        } catch (error) {
+          const isCancelled = signal.aborted || isImportCancelled(error)
+          if (!isCancelled) {
+            console.error(`Failed to import ${file.name}:`, error)
+          }
+          updateItem(id, isCancelled
+            ? { status: 'cancelled' }
+            : { status: 'failed', error: getImportErrorMessage(error) })
+        }
+      })
+    } finally {
+      controllerRef.current = null
+      setIsImporting(false)
+    }
+
+    return imported.filter((content): content is StudyContent => !!content)
+  }
+
+  const cancel = () => {
+    controllerRef.current?.abort()
+  }
+
+  const clear = () => {
+    if (!isImporting) setItems([])
+  }
+
+  return { items, isImporting, importFiles, cancel, clear }
+}
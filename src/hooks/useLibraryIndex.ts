@@ -0,0 +1,10 @@
+import { useContext } from 'react'
+import { EmbeddingIndexContext } from '../contexts/EmbeddingIndexContext'
+
+export const useLibraryIndex = () => {
+  const context = useContext(EmbeddingIndexContext)
+  if (!context) {
+    throw new Error('useLibraryIndex must be used within an EmbeddingIndexProvider')
+  }
+  return context
+}
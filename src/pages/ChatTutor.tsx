@@ -1,31 +1,242 @@
-import React from 'react'
+import React, { useState, useMemo, useRef, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
-import { ArrowLeft, MessageSquare } from 'lucide-react'
+import { Badge } from '../components/ui/badge'
+import { Textarea } from '../components/ui/textarea'
+import { useContent } from '../hooks/useContent'
+import { useOllama } from '../hooks/useOllama'
+import { useSettings } from '../hooks/useSettings'
+import { useEmbeddingIndex } from '../hooks/useEmbeddingIndex'
+import { ArrowLeft, MessageSquare, Send, Trash2, X, BookOpen } from 'lucide-react'
+import { toast } from 'sonner'
+import { ChatMessage } from '../types/content'
+import { chunkContent } from '../utils/chunking'
+import { retrieveChunks } from '../utils/retrieval'
+import { buildTutorMessages, extractCitations } from '../utils/tutor'
+
+// Passages used when the question shares no keywords with the content,
+// e.g. "what is this about?"
+const FALLBACK_CHUNKS = 3
 
 const ChatTutor: React.FC = () => {
   const navigate = useNavigate()
+  const { currentContent, isLoading, updateContent } = useContent()
+  const { chat, isConnected, selectedModel } = useOllama()
+  const { getGenerationPresets } = useSettings()
+  const [question, setQuestion] = useState('')
+  const [isAnswering, setIsAnswering] = useState(false)
+  const [streamingAnswer, setStreamingAnswer] = useState('')
+  const controllerRef = useRef<AbortController | null>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  // Detect if we're running in a deployed environment
+  const isDeployed = window.location.hostname !== 'localhost' && !window.location.hostname.includes('127.0.0.1')
+
+  const chunks = useMemo(() => currentContent ? chunkContent(currentContent) : [], [currentContent])
+  const { status: indexStatus, progress: indexProgress, search } = useEmbeddingIndex(currentContent)
+  const messages = currentContent?.chatHistory || []
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [messages.length, streamingAnswer])
+
+  // Stop answering when leaving the page
+  useEffect(() => {
+    return () => controllerRef.current?.abort()
+  }, [])
+
+  const askQuestion = async () => {
+    const trimmed = question.trim()
+    if (!currentContent || !trimmed || isAnswering) return
+
+    if (!isConnected && !isDeployed) {
+      toast.error('Ollama is not connected. Please ensure Ollama is running locally.')
+      return
+    }
+
+    const userMessage: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: trimmed,
+      createdAt: new Date()
+    }
+    const history = [...messages, userMessage]
+    updateContent(currentContent.id, { chatHistory: history })
+    setQuestion('')
+    setIsAnswering(true)
+
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    try {
+      // Include the previous question so follow-ups like "why?" still retrieve the right passages
+      const previousQuestion = [...messages].reverse().find(message => message.role === 'user')?.content || ''
+      const query = `${trimmed} ${previousQuestion}`
+      // Prefer semantic search and fall back to keywords while the index is unavailable
+      const semantic = await search(query).catch(() => null)
+      const retrieved = (semantic ?? retrieveChunks(chunks, query)).map(result => result.chunk)
+      const sources = retrieved.length ? retrieved : chunks.slice(0, FALLBACK_CHUNKS)
+
+      const answer = isDeployed
+        ? 'Demo answer (Ollama not connected): In the local version, the tutor answers from the most relevant passages of your content and cites them like this [1].'
+        : (await chat(buildTutorMessages(currentContent.title, trimmed, sources, messages), {
+            parameters: getGenerationPresets(selectedModel).tutor,
+            signal: controller.signal,
+            onToken: (_token, text) => setStreamingAnswer(text)
+          })).content
+
+      const assistantMessage: ChatMessage = {
+        id: `${Date.now()}-answer`,
+        role: 'assistant',
+        content: answer.trim(),
+        citations: extractCitations(answer, sources),
+        createdAt: new Date()
+      }
+      updateContent(currentContent.id, { chatHistory: [...history, assistantMessage] })
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        toast.info('Answer cancelled')
+        return
+      }
+      console.error('Failed to answer question:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to answer question')
+    } finally {
+      controllerRef.current = null
+      setIsAnswering(false)
+      setStreamingAnswer('')
+    }
+  }
+
+  const clearConversation = () => {
+    if (!currentContent) return
+    updateContent(currentContent.id, { chatHistory: [] })
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault()
+      askQuestion()
+    }
+  }
+
+  const renderMessage = (message: ChatMessage) => (
+    <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+      <div className={`max-w-[80%] rounded-lg px-4 py-3 ${
+        message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-white border border-gray-200'
+      }`}>
+        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+        {message.citations && message.citations.length > 0 && (
+          <div className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+            {message.citations.map(citation => (
+              <div key={citation.chunkId} className="text-xs text-gray-600">
+                <Badge variant="secondary" className="mr-2">{citation.label}</Badge>
+                <span className="italic">{citation.excerpt}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-amber-50 p-8">
+        <p className="text-center text-gray-600">Loading your content...</p>
+      </div>
+    )
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-amber-50 p-8">
       <div className="max-w-4xl mx-auto">
-        <Button 
-          onClick={() => navigate('/dashboard')} 
-          variant="ghost" 
+        <Button
+          onClick={() => navigate('/dashboard')}
+          variant="ghost"
           className="mb-6"
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
           Back to Dashboard
         </Button>
-        
-        <div className="text-center">
-          <MessageSquare className="h-16 w-16 text-primary mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">AI Tutor Chat</h2>
-          <p className="text-gray-600 mb-6">Coming soon! Chat with AI about your content.</p>
-        </div>
+
+        {!currentContent ? (
+          <div className="text-center">
+            <MessageSquare className="h-16 w-16 text-primary mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">AI Tutor</h2>
+            <p className="text-gray-600 mb-6">Select some content first to chat about it.</p>
+            <Button onClick={() => navigate('/')}>Upload Content</Button>
+          </div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center min-w-0">
+                  <BookOpen className="h-5 w-5 mr-2 flex-shrink-0" />
+                  <span className="truncate">{currentContent.title}</span>
+                </span>
+                <span className="flex items-center gap-2">
+                  {indexStatus === 'indexing' && (
+                    <Badge variant="secondary">
+                      Indexing{indexProgress ? ` ${indexProgress.completed}/${indexProgress.total}` : '...'}
+                    </Badge>
+                  )}
+                  {indexStatus === 'ready' && <Badge variant="secondary">Semantic search</Badge>}
+                  {indexStatus === 'error' && <Badge variant="outline">Keyword search</Badge>}
+                  {messages.length > 0 && (
+                    <Button variant="ghost" size="sm" onClick={clearConversation} disabled={isAnswering}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Clear
+                    </Button>
+                  )}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-[55vh] overflow-y-auto space-y-4 mb-4 pr-1">
+                {messages.length === 0 && !isAnswering && (
+                  <div className="text-center text-gray-500 pt-16">
+                    <MessageSquare className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+                    <p>Ask anything about this content. Answers cite the passages they are based on.</p>
+                  </div>
+                )}
+                {messages.map(renderMessage)}
+                {isAnswering && (
+                  <div className="flex justify-start">
+                    <div className="max-w-[80%] rounded-lg px-4 py-3 bg-white border border-gray-200">
+                      <p className="text-sm whitespace-pre-wrap text-gray-700">
+                        {streamingAnswer || 'Thinking...'}
+                      </p>
+                    </div>
+                  </div>
+                )}
+                <div ref={bottomRef} />
+              </div>
+
+              <div className="flex gap-2">
+                <Textarea
+                  placeholder="Ask a question... (Enter to send, Shift+Enter for a new line)"
+                  value={question}
+                  onChange={(e) => setQuestion(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  className="min-h-[60px] flex-1"
+                />
+                {isAnswering ? (
+                  <Button variant="outline" onClick={() => controllerRef.current?.abort()}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button onClick={askQuestion} disabled={!question.trim()}>
+                    <Send className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   )
 }
 
-export default ChatTutor
\ No newline at end of file
+export default ChatTutor
@@ -1,31 +1,184 @@
-import React from 'react'
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
+import { Card, CardContent } from '../components/ui/card'
 import { Button } from '../components/ui/button'
-import { ArrowLeft, Zap } from 'lucide-react'
+import { Badge } from '../components/ui/badge'
+import { Progress } from '../components/ui/progress'
+import { useContent } from '../hooks/useContent'
+import { ArrowLeft, Zap, RotateCcw, CheckCircle } from 'lucide-react'
+import { Flashcard, ReviewGrade } from '../types/content'
+import { getDueCards, scheduleReview, formatInterval } from '../utils/spacedRepetition'
+
+const GRADES: { grade: ReviewGrade; label: string; shortcut: string; variant: 'destructive' | 'outline' | 'default' | 'secondary' }[] = [
+  { grade: 'again', label: 'Again', shortcut: '1', variant: 'destructive' },
+  { grade: 'hard', label: 'Hard', shortcut: '2', variant: 'outline' },
+  { grade: 'good', label: 'Good', shortcut: '3', variant: 'default' },
+  { grade: 'easy', label: 'Easy', shortcut: '4', variant: 'secondary' }
+]
 
 const Flashcards: React.FC = () => {
   const navigate = useNavigate()
+  const { currentContent, isLoading, updateContent } = useContent()
+  // Ids of the cards still to review in this session, in order
+  const [queue, setQueue] = useState<string[]>([])
+  const [isFlipped, setIsFlipped] = useState(false)
+  const [reviewedCount, setReviewedCount] = useState(0)
+  const [sessionStarted, setSessionStarted] = useState(false)
+
+  const cards = useMemo(() => currentContent?.flashcards || [], [currentContent])
+  const currentCard = cards.find(card => card.id === queue[0])
+
+  const startSession = useCallback((sessionCards: Flashcard[]) => {
+    setQueue(sessionCards.map(card => card.id))
+    setReviewedCount(0)
+    setIsFlipped(false)
+    setSessionStarted(true)
+  }, [])
+
+  // Start with whatever is due once the library has loaded
+  useEffect(() => {
+    if (!isLoading && !sessionStarted && currentContent?.flashcards?.length) {
+      startSession(getDueCards(currentContent.flashcards))
+    }
+  }, [isLoading, sessionStarted, currentContent, startSession])
+
+  const gradeCard = useCallback((grade: ReviewGrade) => {
+    if (!currentContent || !currentCard || !isFlipped) return
+
+    const reviewed = scheduleReview(currentCard, grade)
+    updateContent(currentContent.id, {
+      flashcards: cards.map(card => card.id === reviewed.id ? reviewed : card)
+    })
+
+    // Lapsed cards go to the back of the queue and come up again this session
+    setQueue(prev => grade === 'again' ? [...prev.slice(1), prev[0]] : prev.slice(1))
+    setReviewedCount(prev => prev + 1)
+    setIsFlipped(false)
+  }, [cards, currentCard, currentContent, isFlipped, updateContent])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!currentCard) return
+      if (event.key === ' ' || event.key === 'Enter') {
+        event.preventDefault()
+        setIsFlipped(prev => !prev)
+        return
+      }
+      const match = GRADES.find(option => option.shortcut === event.key)
+      if (match) {
+        gradeCard(match.grade)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [currentCard, gradeCard])
+
+  const nextDueDate = cards
+    .map(card => card.dueDate)
+    .filter((date): date is Date => !!date && date.getTime() > Date.now())
+    .sort((a, b) => a.getTime() - b.getTime())[0]
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <p className="text-center text-gray-600">Loading your flashcards...</p>
+    }
+
+    if (!currentContent || cards.length === 0) {
+      return (
+        <div className="text-center">
+          <Zap className="h-16 w-16 text-accent mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">No Flashcards Yet</h2>
+          <p className="text-gray-600 mb-6">Generate flashcards from the dashboard to start reviewing.</p>
+          <Button onClick={() => navigate('/dashboard')}>Go to Dashboard</Button>
+        </div>
+      )
+    }
+
+    if (!currentCard) {
+      return (
+        <div className="text-center">
+          <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            {reviewedCount > 0 ? 'Session Complete!' : 'All Caught Up!'}
+          </h2>
+          <p className="text-gray-600 mb-2">
+            {reviewedCount > 0
+              ? `You reviewed ${reviewedCount} card${reviewedCount === 1 ? '' : 's'}.`
+              : 'No cards are due for review right now.'}
+          </p>
+          {nextDueDate && (
+            <p className="text-sm text-gray-500 mb-6">
+              Next review due {nextDueDate.toLocaleDateString()}
+            </p>
+          )}
+          <Button variant="outline" onClick={() => startSession(cards)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Review All {cards.length} Cards Anyway
+          </Button>
+        </div>
+      )
+    }
+
+    const sessionTotal = reviewedCount + queue.length
+
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-2 text-sm text-gray-600">
+          <span>{queue.length} remaining</span>
+          <Badge variant="secondary">{currentCard.difficulty}</Badge>
+        </div>
+        <Progress value={(reviewedCount / sessionTotal) * 100} className="w-full mb-6" />
+
+        <Card
+          className="min-h-[280px] cursor-pointer hover:shadow-lg transition-shadow"
+          onClick={() => setIsFlipped(prev => !prev)}
+        >
+          <CardContent className="pt-6 flex flex-col items-center justify-center min-h-[280px] text-center">
+            <p className="text-xs uppercase tracking-wide text-gray-400 mb-4">
+              {isFlipped ? 'Answer' : 'Question'}
+            </p>
+            <p className="text-xl font-medium text-gray-900 whitespace-pre-wrap">
+              {isFlipped ? currentCard.back : currentCard.front}
+            </p>
+            {!isFlipped && (
+              <p className="text-sm text-gray-400 mt-6">Click or press Space to reveal the answer</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {isFlipped && (
+          <div className="grid grid-cols-4 gap-3 mt-6">
+            {GRADES.map(({ grade, label, shortcut, variant }) => (
+              <Button key={grade} variant={variant} onClick={() => gradeCard(grade)} className="flex flex-col h-auto py-2">
+                <span>{label}</span>
+                <span className="text-xs opacity-70">
+                  {formatInterval(scheduleReview(currentCard, grade).interval ?? 0)} · {shortcut}
+                </span>
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-amber-50 p-8">
-      <div className="max-w-4xl mx-auto">
-        <Button 
-          onClick={() => navigate('/dashboard')} 
-          variant="ghost" 
+      <div className="max-w-2xl mx-auto">
+        <Button
+          onClick={() => navigate('/dashboard')}
+          variant="ghost"
           className="mb-6"
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
           Back to Dashboard
         </Button>
-        
-        <div className="text-center">
-          <Zap className="h-16 w-16 text-accent mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Flashcards</h2>
-          <p className="text-gray-600 mb-6">Coming soon! Study with AI-generated flashcards.</p>
-        </div>
+
+        {renderBody()}
       </div>
     </div>
   )
 }
 
-export default Flashcards
\ No newline at end of file
+export default Flashcards
@@ -1,36 +1,135 @@
-import React, { useState, useCallback, useEffect } from 'react'
+import React, { useState, useCallback, useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { useDropzone } from 'react-dropzone'
+import { useDropzone, FileRejection } from 'react-dropzone'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
+import { Label } from '../components/ui/label'
 import { Textarea } from '../components/ui/textarea'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Badge } from '../components/ui/badge'
 import { Progress } from '../components/ui/progress'
 import { useContent } from '../hooks/useContent'
 import { useOllama } from '../hooks/useOllama'
+import { useSettings } from '../hooks/useSettings'
+import { useImportQueue } from '../hooks/useImportQueue'
+import { useLibraryIndex } from '../hooks/useLibraryIndex'
 import { OllamaConfigModal } from '../components/OllamaConfigModal'
-import { Upload, FileText, Youtube, Type, Brain, Zap, AlertCircle, RefreshCw, Settings } from 'lucide-react'
+import { PDFPasswordDialog } from '../components/PDFPasswordDialog'
+import { PDFImportDialog } from '../components/PDFImportDialog'
+import { BatchImportDialog } from '../components/BatchImportDialog'
+import { ImportQueueCard } from '../components/ImportQueueCard'
+import { ImageTextReviewDialog } from '../components/ImageTextReviewDialog'
+import { Upload, FileText, Youtube, Type, Brain, Zap, AlertCircle, RefreshCw, Settings, Library, Trash2, X, SlidersHorizontal, GraduationCap, BookOpen, Mic, Image as ImageIcon, Search } from 'lucide-react'
+import { CourseRef, StudyContent } from '../types/content'
 import { toast } from 'sonner'
 import { 
-  processPDFFile, 
+  inspectPDFFile,
   isPDFProcessingAvailable, 
   validatePDFFile, 
   getErrorMessage, 
-  PDFProcessingError 
+  PDFProcessingError,
+  PasswordRequestReason
 } from '../utils/pdfProcessor'
+import { getCaptionErrorMessage, CaptionParseError } from '../utils/captionParser'
+import { SUPPORTED_FILE_TYPES, getImportFileKind, importFile, importCaptions, ImageTextReview } from '../utils/fileImport'
+import { looksLikeMarkdown, getMarkdownTitle } from '../utils/markdownImport'
+import { FIGURE_SYSTEM_PROMPT } from '../utils/systemPrompts'
+import { retrieveLibraryChunks } from '../utils/retrieval'
+import { formatChunkLocation } from '../utils/chunking'
+import { LibrarySearchResult } from '../contexts/EmbeddingIndexContext'
+
+const LIBRARY_SEARCH_RESULTS = 8
 
 const HomePage: React.FC = () => {
   const navigate = useNavigate()
-  const { addContent } = useContent()
-  const { isConnected, isLoading, checkConnection, loadModels } = useOllama()
+  const { contents, isLoading: isLibraryLoading, addContent, setCurrentContent, deleteContent } = useContent()
+  const { isConnected, isLoading, checkConnection, loadModels, generateText, visionModel } = useOllama()
+  const { settings } = useSettings()
+  const { search: searchIndex } = useLibraryIndex()
   const [isProcessing, setIsProcessing] = useState(false)
   const [progress, setProgress] = useState(0)
   const [youtubeUrl, setYoutubeUrl] = useState('')
+  const [captionFile, setCaptionFile] = useState<File | null>(null)
   const [textContent, setTextContent] = useState('')
   const [showConfigModal, setShowConfigModal] = useState(false)
   const [pdfAvailable, setPdfAvailable] = useState(false)
+  // Pending password prompt - resolved by the dialog, null when cancelled
+  const [passwordRequest, setPasswordRequest] = useState<{
+    fileName: string
+    reason: PasswordRequestReason
+    resolve: (password: string | null) => void
+  } | null>(null)
+  // Pending page selection - resolved by the dialog, null when cancelled
+  const [importRequest, setImportRequest] = useState<{
+    fileName: string
+    pageCount: number
+    resolve: (pageNumbers: number[] | null) => void
+  } | null>(null)
+  const pdfControllerRef = useRef<AbortController | null>(null)
+  const [isExtractingPdf, setIsExtractingPdf] = useState(false)
+  // Dropped files waiting for the batch import dialog
+  const [batchFiles, setBatchFiles] = useState<File[]>([])
+  // Pending OCR text review - resolved by the dialog, null when discarded
+  const [imageReview, setImageReview] = useState<{
+    review: ImageTextReview
+    resolve: (result: { title: string; text: string } | null) => void
+  } | null>(null)
+  const [libraryQuery, setLibraryQuery] = useState('')
+  // Passages matching the library search, null while not searching
+  const [searchResults, setSearchResults] = useState<LibrarySearchResult[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  // Concurrent imports take turns at the password and review dialogs
+  const dialogQueueRef = useRef<Promise<unknown>>(Promise.resolve())
+
+  const enqueueDialog = useCallback(<T,>(open: (resolve: (value: T) => void) => void) => {
+    const request = dialogQueueRef.current.then(() => new Promise<T>(open))
+    dialogQueueRef.current = request
+    return request
+  }, [])
+
+  // The dialog closes as dismissed (null) when the import stops first, so it
+  // can't hold up the dialogs queued behind it
+  const enqueueImportDialog = useCallback(<T,>(
+    signal: AbortSignal | undefined,
+    open: (resolve: (value: T | null) => void) => void,
+    close: () => void
+  ) =>
+    enqueueDialog<T | null>(resolve => {
+      if (signal?.aborted) {
+        resolve(null)
+        return
+      }
+      const dismiss = () => {
+        close()
+        resolve(null)
+      }
+      signal?.addEventListener('abort', dismiss, { once: true })
+      open(value => {
+        signal?.removeEventListener('abort', dismiss)
+        resolve(value)
+      })
+    })
+  , [enqueueDialog])
+
+  const requestPassword = useCallback((fileName: string, reason: PasswordRequestReason, signal: AbortSignal) =>
+    enqueueImportDialog<string>(
+      signal,
+      resolve => setPasswordRequest({ fileName, reason, resolve }),
+      () => setPasswordRequest(null)
+    )
+  , [enqueueImportDialog])
+
+  const requestImageReview = useCallback((review: ImageTextReview, signal?: AbortSignal) =>
+    enqueueImportDialog<{ title: string; text: string }>(
+      signal,
+      resolve => setImageReview({ review, resolve }),
+      () => setImageReview(null)
+    )
+  , [enqueueImportDialog])
+
+  const importQueue = useImportQueue({ onPasswordRequired: requestPassword, onReviewImageText: requestImageReview })
+  const { importFiles } = importQueue
   
   // Detect if we're running in a deployed environment
   const isDeployed = window.location.hostname !== 'localhost' && !window.location.hostname.includes('127.0.0.1')
@@ -65,9 +164,28 @@ const HomePage: React.FC = () => {
     return match ? match[1] : null
   }
 
+  const openContent = (content: StudyContent) => {
+    setCurrentContent(content)
+    navigate('/dashboard')
+  }
+
+  const getContentIcon = (type: StudyContent['type']) => {
+    switch (type) {
+      case 'epub': return <BookOpen className="h-4 w-4" />
+      case 'audio': return <Mic className="h-4 w-4" />
+      case 'image': return <ImageIcon className="h-4 w-4" />
+      case 'youtube': return <Youtube className="h-4 w-4" />
+      case 'text': return <Type className="h-4 w-4" />
+      default: return <FileText className="h-4 w-4" />
+    }
+  }
+
   const processFile = useCallback(async (file: File) => {
+    const { maxFileSizeMB, maxPages, describeFigures: shouldDescribeFigures } = settings.import
+    const maxFileSize = maxFileSizeMB * 1024 * 1024
+
     // Validate file first
-    const validation = validatePDFFile(file)
+    const validation = validatePDFFile(file, maxFileSize)
     if (!validation.valid) {
       toast.error(validation.error || 'Invalid PDF file')
       return
@@ -80,21 +198,60 @@ const HomePage: React.FC = () => {
 
     setIsProcessing(true)
     setProgress(0)
+    const controller = new AbortController()
+    pdfControllerRef.current = controller
+    setIsExtractingPdf(true)
+
+    const onPasswordRequired = (reason: PasswordRequestReason, signal: AbortSignal) =>
+      requestPassword(file.name, reason, signal)
 
     try {
-      const result = await processPDFFile(file, {
-        onProgress: setProgress,
-        maxPages: 100,
-        timeout: 60000
+      // Read the page count first so the user can pick which pages to import
+      const inspection = await inspectPDFFile(file, {
+        signal: controller.signal,
+        maxFileSize,
+        timeout: 60000,
+        onPasswordRequired
       })
+      setProgress(0)
 
-      addContent({
-        title: result.title || file.name.replace('.pdf', ''),
-        type: 'pdf',
-        content: result.text
+      const pageNumbers = await new Promise<number[] | null>(resolve => {
+        setImportRequest({ fileName: file.name, pageCount: inspection.pageCount, resolve })
       })
+      if (!pageNumbers) {
+        toast.info('PDF import cancelled')
+        return
+      }
 
-      toast.success(`PDF processed successfully! (${result.pageCount} pages)`)
+      const imported = await importFile(file, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        maxFileSize,
+        maxPages,
+        pageNumbers,
+        // Already unlocked during inspection
+        password: inspection.password,
+        onPasswordRequired,
+        describeFigure: shouldDescribeFigures
+          ? (prompt, image) => generateText(prompt, {
+              system: FIGURE_SYSTEM_PROMPT,
+              images: [image],
+              model: visionModel,
+              signal: controller.signal
+            })
+          : undefined,
+        onWarning: (warning) => toast.warning(warning)
+      })
+      addContent(imported)
+
+      const importedPageCount = imported.pages?.length ?? 0
+      const describedPageCount = imported.pages?.filter(page => page.figureDescription).length ?? 0
+      const pageSummary = importedPageCount < inspection.pageCount
+        ? `${importedPageCount} of ${inspection.pageCount} pages`
+        : `${inspection.pageCount} pages`
+      toast.success(describedPageCount > 0
+        ? `PDF processed successfully! (${pageSummary}, figures on ${describedPageCount} pages described with ${visionModel})`
+        : `PDF processed successfully! (${pageSummary})`)
       
       setTimeout(() => {
         navigate('/dashboard')
@@ -103,20 +260,47 @@ const HomePage: React.FC = () => {
     } catch (error) {
       console.error('Error processing PDF:', error)
       
-      if (error instanceof PDFProcessingError) {
+      if (error instanceof PDFProcessingError && ['PASSWORD_CANCELLED', 'CANCELLED'].includes(error.code)) {
+        toast.info(getErrorMessage(error))
+      } else if (controller.signal.aborted) {
+        // Cancelled while figures were being described
+        toast.info('PDF processing was cancelled.')
+      } else if (error instanceof PDFProcessingError) {
         toast.error(getErrorMessage(error))
       } else {
         toast.error('Failed to process PDF')
       }
     } finally {
+      pdfControllerRef.current = null
+      setIsExtractingPdf(false)
       setIsProcessing(false)
       setProgress(0)
     }
-  }, [addContent, navigate, pdfAvailable])
+  }, [addContent, generateText, navigate, pdfAvailable, requestPassword, settings.import, visionModel])
+
+  // Stop extracting when leaving the page
+  useEffect(() => {
+    return () => pdfControllerRef.current?.abort()
+  }, [])
+
+  const answerImportRequest = (pageNumbers: number[] | null) => {
+    importRequest?.resolve(pageNumbers)
+    setImportRequest(null)
+  }
+
+  const answerPasswordRequest = (password: string | null) => {
+    passwordRequest?.resolve(password)
+    setPasswordRequest(null)
+  }
+
+  const answerImageReview = (result: { title: string; text: string } | null) => {
+    imageReview?.resolve(result)
+    setImageReview(null)
+  }
 
   const processYouTube = async () => {
-    if (!youtubeUrl.trim()) {
-      toast.error('Please enter a YouTube URL')
+    if (!captionFile) {
+      toast.error('Please choose a caption file for the video')
       return
     }
 
@@ -124,28 +308,23 @@ const HomePage: React.FC = () => {
     setProgress(20)
 
     try {
-      // Extract video ID from URL
-      const videoId = extractVideoId(youtubeUrl)
-      if (!videoId) {
+      // The URL is optional metadata - the transcript comes from the caption file
+      const urlVideoId = youtubeUrl.trim() ? extractVideoId(youtubeUrl) : null
+      if (youtubeUrl.trim() && !urlVideoId) {
         throw new Error('Invalid YouTube URL')
       }
 
-      setProgress(50)
-
-      // For demo purposes, we'll create placeholder content
-      // In a real implementation, you'd use YouTube API or transcript services
-      const mockTranscript = `This is a placeholder transcript for YouTube video: ${videoId}. 
-      In a real implementation, this would contain the actual video transcript 
-      extracted using YouTube's API or third-party transcript services.`
+      const imported = await importCaptions(captionFile, { onProgress: setProgress })
+      const videoId = urlVideoId || imported.videoId
 
       addContent({
-        title: `YouTube Video: ${videoId}`,
-        type: 'youtube',
-        content: mockTranscript
+        ...imported,
+        title: imported.videoId || !videoId ? imported.title : `YouTube Video: ${videoId}`,
+        videoId
       })
 
       setProgress(100)
-      toast.success('YouTube video processed!')
+      toast.success(`Transcript imported! (${imported.segments?.length ?? 0} captions)`)
       
       setTimeout(() => {
         navigate('/dashboard')
@@ -153,11 +332,16 @@ const HomePage: React.FC = () => {
 
     } catch (error) {
       console.error('Error processing YouTube:', error)
-      toast.error('Failed to process YouTube video')
+      if (error instanceof CaptionParseError) {
+        toast.error(getCaptionErrorMessage(error))
+      } else {
+        toast.error(error instanceof Error ? error.message : 'Failed to process YouTube video')
+      }
     } finally {
       setIsProcessing(false)
       setProgress(0)
       setYoutubeUrl('')
+      setCaptionFile(null)
     }
   }
 
@@ -171,9 +355,11 @@ const HomePage: React.FC = () => {
     setProgress(50)
 
     try {
+      // Pasted notes with Markdown structure are kept and rendered as Markdown
+      const isMarkdown = looksLikeMarkdown(textContent)
       addContent({
-        title: `Text Content - ${new Date().toLocaleDateString()}`,
-        type: 'text',
+        title: (isMarkdown && getMarkdownTitle(textContent)) || `Text Content - ${new Date().toLocaleDateString()}`,
+        type: isMarkdown ? 'markdown' : 'text',
         content: textContent
       })
 
@@ -194,26 +380,139 @@ const HomePage: React.FC = () => {
     }
   }
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0]
-    if (!file) return
+  const startBatchImport = async (files: File[], courseTitle?: string) => {
+    setBatchFiles([])
+    const course: CourseRef | undefined = courseTitle
+      ? { id: `course-${Date.now()}`, title: courseTitle }
+      : undefined
+
+    const imported = await importFiles(files, course)
+    if (imported.length > 0) {
+      toast.success(course
+        ? `Imported ${imported.length} of ${files.length} files into ${course.title}`
+        : `Imported ${imported.length} of ${files.length} files`)
+    }
+  }
+
+  // A single file that needs no page selection goes straight through the queue
+  const importSingleFile = useCallback(async (file: File) => {
+    const [content] = await importFiles([file])
+    if (content) {
+      toast.success(`${content.title} imported!`)
+      navigate('/dashboard')
+    }
+  }, [importFiles, navigate])
+
+  const onDrop = useCallback(async (acceptedFiles: File[], fileRejections: FileRejection[]) => {
+    if (fileRejections.length > 0) {
+      const names = fileRejections.map(rejection => rejection.file.name).join(', ')
+      toast.error(`Unsupported file type: ${names}. Please upload documents, notes, photos, recordings or caption files.`)
+    }
 
-    if (file.type !== 'application/pdf') {
-      toast.error('Please upload a PDF file')
+    if (acceptedFiles.length > 1) {
+      setBatchFiles(acceptedFiles)
       return
     }
 
-    await processFile(file)
-  }, [processFile])
+    const file = acceptedFiles[0]
+    if (!file) return
+
+    if (getImportFileKind(file) === 'pdf') {
+      await processFile(file)
+    } else {
+      await importSingleFile(file)
+    }
+  }, [importSingleFile, processFile])
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/pdf': ['.pdf']
-    },
-    multiple: false
+    accept: SUPPORTED_FILE_TYPES,
+    multiple: true,
+    disabled: isProcessing || importQueue.isImporting
   })
 
+  // Semantic search over every indexed item, keywords while nothing is indexed yet
+  const searchLibrary = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const query = libraryQuery.trim()
+    if (!query) {
+      setSearchResults(null)
+      return
+    }
+
+    setIsSearching(true)
+    try {
+      const semantic = await searchIndex(query, { limit: LIBRARY_SEARCH_RESULTS }).catch(() => null)
+      setSearchResults(semantic ?? retrieveLibraryChunks(contents, query, LIBRARY_SEARCH_RESULTS))
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const clearLibrarySearch = () => {
+    setLibraryQuery('')
+    setSearchResults(null)
+  }
+
+  const renderSearchResult = ({ chunk, contentId }: LibrarySearchResult) => {
+    const content = contents.find(candidate => candidate.id === contentId)
+    if (!content) return null
+    return (
+      <button
+        key={chunk.id}
+        onClick={() => openContent(content)}
+        className="block w-full py-3 text-left hover:text-primary"
+      >
+        <span className="flex items-center min-w-0">
+          {getContentIcon(content.type)}
+          <span className="ml-2 font-medium truncate">{content.title}</span>
+          <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">{formatChunkLocation(chunk)}</span>
+        </span>
+        <span className="mt-1 text-sm text-gray-600 line-clamp-2">{chunk.text}</span>
+      </button>
+    )
+  }
+
+  // Files imported as a course are listed together under its title
+  const getLibraryGroups = () => {
+    const groups: { course?: CourseRef; contents: StudyContent[] }[] = []
+    for (const content of [...contents].reverse()) {
+      const group = content.course && groups.find(candidate => candidate.course?.id === content.course?.id)
+      if (group) {
+        group.contents.push(content)
+      } else {
+        groups.push({ course: content.course, contents: [content] })
+      }
+    }
+    return groups
+  }
+
+  const renderLibraryItem = (content: StudyContent) => (
+    <div key={content.id} className="flex items-center justify-between py-3">
+      <button
+        onClick={() => openContent(content)}
+        className="flex items-center min-w-0 text-left hover:text-primary"
+      >
+        {getContentIcon(content.type)}
+        <span className="ml-2 font-medium truncate">{content.title}</span>
+        <Badge variant="secondary" className="ml-2">
+          {content.type.toUpperCase()}
+        </Badge>
+        <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">
+          {content.createdAt.toLocaleDateString()}
+        </span>
+      </button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => deleteContent(content.id)}
+        aria-label={`Delete ${content.title}`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-amber-50">
       <div className="container mx-auto px-4 py-8">
@@ -280,6 +579,16 @@ const HomePage: React.FC = () => {
                 Configure
               </Button>
             )}
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate('/settings')}
+              className="flex items-center gap-2"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+              Settings
+            </Button>
           </div>
 
           {isDeployed ? (
@@ -325,18 +634,35 @@ const HomePage: React.FC = () => {
                 <Zap className="h-8 w-8 text-primary mx-auto mb-2 animate-pulse" />
                 <p className="font-medium">Processing content...</p>
               </div>
-              <Progress value={progress} className="w-full" />
+              <div className="flex items-center gap-4">
+                <Progress value={progress} className="flex-1" />
+                {isExtractingPdf && (
+                  <Button variant="outline" size="sm" onClick={() => pdfControllerRef.current?.abort()}>
+                    <X className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
             </CardContent>
           </Card>
         )}
 
+        {importQueue.items.length > 0 && (
+          <ImportQueueCard
+            items={importQueue.items}
+            isImporting={importQueue.isImporting}
+            onCancel={importQueue.cancel}
+            onClear={importQueue.clear}
+          />
+        )}
+
         {/* Content Upload Tabs */}
         <div className="max-w-4xl mx-auto">
           <Tabs defaultValue="pdf" className="w-full">
             <TabsList className="grid w-full grid-cols-3 mb-8">
               <TabsTrigger value="pdf" className="flex items-center">
                 <FileText className="h-4 w-4 mr-2" />
-                PDF Upload
+                File Upload
               </TabsTrigger>
               <TabsTrigger value="youtube" className="flex items-center">
                 <Youtube className="h-4 w-4 mr-2" />
@@ -353,7 +679,7 @@ const HomePage: React.FC = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center">
                     <FileText className="h-5 w-5 mr-2" />
-                    Upload PDF Document
+                    Upload Documents
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
@@ -381,14 +707,15 @@ const HomePage: React.FC = () => {
                         </p>
                       </div>
                     ) : isDragActive ? (
-                      <p className="text-lg text-primary">Drop the PDF here...</p>
+                      <p className="text-lg text-primary">Drop the files here...</p>
                     ) : (
                       <div>
                         <p className="text-lg text-gray-600 mb-2">
-                          Drag & drop a PDF file here, or click to select
+                          Drag & drop PDFs, EPUBs, Word/ODT documents, Markdown or HTML notes, photos of whiteboards and handouts, lecture recordings or caption files here, or click to select
                         </p>
                         <p className="text-sm text-gray-500">
-                          Supports PDF files up to 50MB
+                          Supports PDF files up to {settings.import.maxFileSizeMB}MB, importing at most {settings.import.maxPages} pages.
+                          Recordings are transcribed and photos are read on this device. Drop several files to import them together.
                         </p>
                       </div>
                     )}
@@ -406,23 +733,35 @@ const HomePage: React.FC = () => {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div>
+                  <div className="space-y-2">
+                    <Label htmlFor="youtube-url">Video URL (optional)</Label>
                     <Input
+                      id="youtube-url"
                       placeholder="Enter YouTube URL (e.g., https://youtube.com/watch?v=...)"
                       value={youtubeUrl}
                       onChange={(e) => setYoutubeUrl(e.target.value)}
                       className="w-full"
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="caption-file">Caption File</Label>
+                    <Input
+                      id="caption-file"
+                      type="file"
+                      accept=".vtt,.srt,.json,.json3"
+                      onChange={(e) => setCaptionFile(e.target.files?.[0] || null)}
+                      className="w-full"
+                    />
+                  </div>
                   <Button 
                     onClick={processYouTube}
-                    disabled={isProcessing || !youtubeUrl.trim()}
+                    disabled={isProcessing || !captionFile}
                     className="w-full"
                   >
-                    Process YouTube Video
+                    Import Transcript
                   </Button>
                   <p className="text-sm text-gray-500 text-center">
-                    Note: This is a demo implementation. Real transcript extraction would require YouTube API integration.
+                    Download the video's captions as WebVTT, SRT or json3 (e.g. with <code>yt-dlp --write-subs --write-auto-subs --skip-download</code>) and choose the file here.
                   </p>
                 </CardContent>
               </Card>
@@ -439,7 +778,7 @@ const HomePage: React.FC = () => {
                 <CardContent className="space-y-4">
                   <div>
                     <Textarea
-                      placeholder="Paste your text content here..."
+                      placeholder="Paste your text content here... Markdown headings, lists, code blocks and tables are kept."
                       value={textContent}
                       onChange={(e) => setTextContent(e.target.value)}
                       className="min-h-[200px] w-full"
@@ -458,6 +797,67 @@ const HomePage: React.FC = () => {
           </Tabs>
         </div>
 
+        {/* Saved Library */}
+        {(isLibraryLoading || contents.length > 0) && (
+          <div className="max-w-4xl mx-auto mt-8">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Library className="h-5 w-5 mr-2" />
+                  Your Library
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!isLibraryLoading && (
+                  <form onSubmit={searchLibrary} className="flex gap-2 mb-2">
+                    <Input
+                      placeholder="Search your library..."
+                      aria-label="Search your library"
+                      value={libraryQuery}
+                      onChange={(e) => setLibraryQuery(e.target.value)}
+                    />
+                    <Button type="submit" variant="outline" disabled={isSearching || !libraryQuery.trim()}>
+                      <Search className="h-4 w-4 mr-2" />
+                      {isSearching ? 'Searching...' : 'Search'}
+                    </Button>
+                    {searchResults && (
+                      <Button type="button" variant="ghost" onClick={clearLibrarySearch} aria-label="Clear search">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </form>
+                )}
+                {isLibraryLoading ? (
+                  <p className="text-sm text-gray-500">Loading saved content...</p>
+                ) : searchResults ? (
+                  searchResults.length > 0 ? (
+                    <div className="divide-y">{searchResults.map(renderSearchResult)}</div>
+                  ) : (
+                    <p className="text-sm text-gray-500 py-3">No passages match your search.</p>
+                  )
+                ) : (
+                  <div className="divide-y">
+                    {getLibraryGroups().map(({ course, contents: groupContents }) => course ? (
+                      <div key={course.id} className="py-3">
+                        <div className="flex items-center text-sm font-semibold text-gray-700">
+                          <GraduationCap className="h-4 w-4 mr-2" />
+                          {course.title}
+                          <span className="ml-2 font-normal text-gray-500">
+                            {groupContents.length} {groupContents.length === 1 ? 'item' : 'items'}
+                          </span>
+                        </div>
+                        <div className="pl-6 divide-y">
+                          {groupContents.map(renderLibraryItem)}
+                        </div>
+                      </div>
+                    ) : renderLibraryItem(groupContents[0]))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {/* Features */}
         <div className="mt-16 grid md:grid-cols-3 gap-6 max-w-4xl mx-auto">
           <Card className="text-center">
@@ -497,6 +897,36 @@ const HomePage: React.FC = () => {
         open={showConfigModal} 
         onOpenChange={setShowConfigModal} 
       />
+
+      <PDFPasswordDialog
+        open={passwordRequest !== null}
+        fileName={passwordRequest?.fileName || ''}
+        reason={passwordRequest?.reason || 'needed'}
+        onSubmit={answerPasswordRequest}
+        onCancel={() => answerPasswordRequest(null)}
+      />
+
+      <ImageTextReviewDialog
+        review={imageReview?.review || null}
+        onSave={answerImageReview}
+        onCancel={() => answerImageReview(null)}
+      />
+
+      <BatchImportDialog
+        open={batchFiles.length > 0}
+        files={batchFiles}
+        onStart={(courseTitle) => startBatchImport(batchFiles, courseTitle)}
+        onCancel={() => setBatchFiles([])}
+      />
+
+      <PDFImportDialog
+        open={importRequest !== null}
+        fileName={importRequest?.fileName || ''}
+        pageCount={importRequest?.pageCount || 0}
+        maxPages={settings.import.maxPages}
+        onImport={answerImportRequest}
+        onCancel={() => answerImportRequest(null)}
+      />
     </div>
   )
 }
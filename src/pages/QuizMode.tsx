@@ -1,31 +1,239 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
-import { ArrowLeft, HelpCircle } from 'lucide-react'
+import { Badge } from '../components/ui/badge'
+import { Progress } from '../components/ui/progress'
+import { useContent } from '../hooks/useContent'
+import { ArrowLeft, HelpCircle, CheckCircle, XCircle, RotateCcw, Trophy } from 'lucide-react'
+import { QuizAttempt } from '../types/content'
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D']
 
 const QuizMode: React.FC = () => {
   const navigate = useNavigate()
+  const { currentContent, isLoading, updateContent } = useContent()
+  const [questionIndex, setQuestionIndex] = useState(0)
+  const [selectedOption, setSelectedOption] = useState<number | null>(null)
+  const [isLocked, setIsLocked] = useState(false)
+  const [answers, setAnswers] = useState<number[]>([])
+  const [finishedAttempt, setFinishedAttempt] = useState<QuizAttempt | null>(null)
+
+  const questions = currentContent?.quiz || []
+  const question = questions[questionIndex]
+  const attempts = currentContent?.quizAttempts || []
+
+  const submitAnswer = () => {
+    if (selectedOption === null || isLocked) return
+    setAnswers(prev => [...prev, selectedOption])
+    setIsLocked(true)
+  }
+
+  const nextQuestion = () => {
+    if (!currentContent) return
+
+    if (questionIndex < questions.length - 1) {
+      setQuestionIndex(prev => prev + 1)
+      setSelectedOption(null)
+      setIsLocked(false)
+      return
+    }
+
+    const score = answers.filter((answer, index) => answer === questions[index].correctAnswer).length
+    const attempt: QuizAttempt = {
+      id: Date.now().toString(),
+      completedAt: new Date(),
+      answers,
+      score,
+      total: questions.length
+    }
+    updateContent(currentContent.id, { quizAttempts: [...attempts, attempt] })
+    setFinishedAttempt(attempt)
+  }
+
+  const restartQuiz = () => {
+    setQuestionIndex(0)
+    setSelectedOption(null)
+    setIsLocked(false)
+    setAnswers([])
+    setFinishedAttempt(null)
+  }
+
+  const getOptionClassName = (optionIndex: number) => {
+    if (!isLocked) {
+      return optionIndex === selectedOption
+        ? 'border-primary bg-primary/5'
+        : 'border-gray-200 hover:border-primary hover:bg-gray-50'
+    }
+    if (optionIndex === question.correctAnswer) {
+      return 'border-green-500 bg-green-50'
+    }
+    if (optionIndex === selectedOption) {
+      return 'border-red-500 bg-red-50'
+    }
+    return 'border-gray-200 opacity-60'
+  }
+
+  const renderHistory = () => attempts.length > 0 && (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="text-lg">Previous Attempts</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y">
+          {[...attempts].reverse().map((attempt) => (
+            <div key={attempt.id} className="flex items-center justify-between py-2 text-sm">
+              <span className="text-gray-600">{attempt.completedAt.toLocaleString()}</span>
+              <Badge variant={attempt.score / attempt.total >= 0.7 ? 'default' : 'secondary'}>
+                {attempt.score}/{attempt.total} ({Math.round((attempt.score / attempt.total) * 100)}%)
+              </Badge>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <p className="text-center text-gray-600">Loading your quiz...</p>
+    }
+
+    if (!currentContent || questions.length === 0) {
+      return (
+        <div className="text-center">
+          <HelpCircle className="h-16 w-16 text-primary mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">No Quiz Yet</h2>
+          <p className="text-gray-600 mb-6">Generate a quiz from the dashboard to test your knowledge.</p>
+          <Button onClick={() => navigate('/dashboard')}>Go to Dashboard</Button>
+        </div>
+      )
+    }
+
+    if (finishedAttempt) {
+      const percentage = Math.round((finishedAttempt.score / finishedAttempt.total) * 100)
+      return (
+        <div>
+          <div className="text-center mb-8">
+            <Trophy className="h-16 w-16 text-accent mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Quiz Complete!</h2>
+            <p className="text-gray-600 mb-6">
+              You scored {finishedAttempt.score} out of {finishedAttempt.total} ({percentage}%)
+            </p>
+            <Button onClick={restartQuiz}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retake Quiz
+            </Button>
+          </div>
+
+          <div className="space-y-4">
+            {questions.map((reviewQuestion, index) => {
+              const answer = finishedAttempt.answers[index]
+              const isCorrect = answer === reviewQuestion.correctAnswer
+              return (
+                <Card key={reviewQuestion.id}>
+                  <CardContent className="pt-6">
+                    <div className="flex items-start">
+                      {isCorrect ? (
+                        <CheckCircle className="h-5 w-5 text-green-500 mt-0.5 mr-3 flex-shrink-0" />
+                      ) : (
+                        <XCircle className="h-5 w-5 text-red-500 mt-0.5 mr-3 flex-shrink-0" />
+                      )}
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-900 mb-1">{reviewQuestion.question}</p>
+                        {!isCorrect && (
+                          <p className="text-red-700">Your answer: {reviewQuestion.options[answer]}</p>
+                        )}
+                        <p className="text-green-700">Correct answer: {reviewQuestion.options[reviewQuestion.correctAnswer]}</p>
+                        {reviewQuestion.explanation && (
+                          <p className="text-gray-600 mt-1">{reviewQuestion.explanation}</p>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+
+          {renderHistory()}
+        </div>
+      )
+    }
+
+    const isCorrect = selectedOption === question.correctAnswer
+
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-2 text-sm text-gray-600">
+          <span>Question {questionIndex + 1} of {questions.length}</span>
+          <span>{answers.filter((answer, index) => answer === questions[index].correctAnswer).length} correct so far</span>
+        </div>
+        <Progress value={(questionIndex / questions.length) * 100} className="w-full mb-6" />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">{question.question}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {question.options.map((option, optionIndex) => (
+              <button
+                key={optionIndex}
+                onClick={() => !isLocked && setSelectedOption(optionIndex)}
+                disabled={isLocked}
+                className={`w-full flex items-center text-left p-4 rounded-lg border transition-colors ${getOptionClassName(optionIndex)}`}
+              >
+                <span className="font-medium mr-3">{OPTION_LETTERS[optionIndex] || optionIndex + 1}.</span>
+                <span>{option}</span>
+              </button>
+            ))}
+
+            {isLocked && (
+              <div className={`rounded-lg p-4 border ${isCorrect ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+                <p className={`font-medium mb-1 ${isCorrect ? 'text-green-800' : 'text-red-800'}`}>
+                  {isCorrect ? 'Correct!' : 'Incorrect'}
+                </p>
+                {question.explanation && (
+                  <p className="text-sm text-gray-700">{question.explanation}</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end pt-2">
+              {isLocked ? (
+                <Button onClick={nextQuestion}>
+                  {questionIndex < questions.length - 1 ? 'Next Question' : 'See Results'}
+                </Button>
+              ) : (
+                <Button onClick={submitAnswer} disabled={selectedOption === null}>
+                  Submit Answer
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {renderHistory()}
+      </div>
+    )
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-amber-50 p-8">
-      <div className="max-w-4xl mx-auto">
-        <Button 
-          onClick={() => navigate('/dashboard')} 
-          variant="ghost" 
+      <div className="max-w-2xl mx-auto">
+        <Button
+          onClick={() => navigate('/dashboard')}
+          variant="ghost"
           className="mb-6"
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
           Back to Dashboard
         </Button>
-        
-        <div className="text-center">
-          <HelpCircle className="h-16 w-16 text-primary mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Quiz Mode</h2>
-          <p className="text-gray-600 mb-6">Coming soon! Take AI-generated quizzes.</p>
-        </div>
+
+        {renderBody()}
       </div>
     </div>
   )
 }
 
-export default QuizMode
\ No newline at end of file
+export default QuizMode
@@ -1,31 +1,150 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
-import { ArrowLeft, Settings as SettingsIcon } from 'lucide-react'
+import { Input } from '../components/ui/input'
+import { Label } from '../components/ui/label'
+import { Switch } from '../components/ui/switch'
+import { GenerationSettingsCard } from '../components/GenerationSettingsCard'
+import { useSettings } from '../hooks/useSettings'
+import { useOllama } from '../hooks/useOllama'
+import { ArrowLeft, Settings as SettingsIcon, Upload, Eye } from 'lucide-react'
+import { toast } from 'sonner'
+import { DEFAULT_SETTINGS } from '../types/settings'
+
+// Keeps a browser tab from running out of memory on huge documents
+const MAX_FILE_SIZE_MB = 500
+const MAX_PAGES = 5000
 
 const Settings: React.FC = () => {
   const navigate = useNavigate()
+  const { settings, updateImportSettings } = useSettings()
+  const { visionModel } = useOllama()
+  const [maxFileSizeMB, setMaxFileSizeMB] = useState(String(settings.import.maxFileSizeMB))
+  const [maxPages, setMaxPages] = useState(String(settings.import.maxPages))
+
+  const parseLimit = (value: string, max: number): number | null => {
+    const number = Number(value)
+    return Number.isInteger(number) && number >= 1 && number <= max ? number : null
+  }
+
+  const fileSizeLimit = parseLimit(maxFileSizeMB, MAX_FILE_SIZE_MB)
+  const pageLimit = parseLimit(maxPages, MAX_PAGES)
+
+  const saveImportSettings = () => {
+    if (fileSizeLimit === null || pageLimit === null) return
+    updateImportSettings({ maxFileSizeMB: fileSizeLimit, maxPages: pageLimit })
+    toast.success('Settings saved')
+  }
+
+  const resetToDefaults = () => {
+    const { maxFileSizeMB: defaultFileSize, maxPages: defaultPages } = DEFAULT_SETTINGS.import
+    updateImportSettings({ maxFileSizeMB: defaultFileSize, maxPages: defaultPages })
+    setMaxFileSizeMB(String(DEFAULT_SETTINGS.import.maxFileSizeMB))
+    setMaxPages(String(DEFAULT_SETTINGS.import.maxPages))
+    toast.success('Import limits reset to defaults')
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-amber-50 p-8">
       <div className="max-w-4xl mx-auto">
-        <Button 
-          onClick={() => navigate('/dashboard')} 
-          variant="ghost" 
+        <Button
+          onClick={() => navigate('/dashboard')}
+          variant="ghost"
           className="mb-6"
         >
           <ArrowLeft className="h-4 w-4 mr-2" />
           Back to Dashboard
         </Button>
-        
-        <div className="text-center">
-          <SettingsIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Settings</h2>
-          <p className="text-gray-600 mb-6">Coming soon! Configure your learning preferences.</p>
+
+        <div className="flex items-center mb-6">
+          <SettingsIcon className="h-8 w-8 text-primary mr-3" />
+          <h2 className="text-2xl font-bold text-gray-900">Settings</h2>
         </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <Upload className="h-5 w-5 mr-2" />
+              Import Limits
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="max-file-size">Maximum file size (MB)</Label>
+                <Input
+                  id="max-file-size"
+                  type="number"
+                  min={1}
+                  max={MAX_FILE_SIZE_MB}
+                  value={maxFileSizeMB}
+                  onChange={(e) => setMaxFileSizeMB(e.target.value)}
+                />
+                {fileSizeLimit === null && (
+                  <p className="text-sm text-red-600">Enter a whole number from 1 to {MAX_FILE_SIZE_MB}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-pages">Maximum pages per PDF</Label>
+                <Input
+                  id="max-pages"
+                  type="number"
+                  min={1}
+                  max={MAX_PAGES}
+                  value={maxPages}
+                  onChange={(e) => setMaxPages(e.target.value)}
+                />
+                {pageLimit === null && (
+                  <p className="text-sm text-red-600">Enter a whole number from 1 to {MAX_PAGES}</p>
+                )}
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              Larger documents take longer to import and use more memory. Pages beyond the limit are skipped,
+              and you are warned before importing.
+            </p>
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={resetToDefaults}>
+                Reset to Defaults
+              </Button>
+              <Button onClick={saveImportSettings} disabled={fileSizeLimit === null || pageLimit === null}>
+                Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center text-lg">
+              <Eye className="h-5 w-5 mr-2" />
+              Figures
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="describe-figures">Describe figures in PDFs</Label>
+                <p className="text-sm text-gray-500">
+                  Pages with diagrams, charts or pictures are shown to the vision model ({visionModel}), and its
+                  descriptions are added to the page text so summaries and flashcards cover them. Each figure adds
+                  to the import time. Choose the vision model in the Ollama configuration.
+                </p>
+              </div>
+              <Switch
+                id="describe-figures"
+                checked={settings.import.describeFigures}
+                onCheckedChange={(describeFigures) => updateImportSettings({ describeFigures })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <GenerationSettingsCard />
       </div>
     </div>
   )
 }
 
-export default Settings
\ No newline at end of file
+export default Settings
@@ -1,11 +1,15 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Badge } from '../components/ui/badge'
 import { Progress } from '../components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { MarkdownContent } from '../components/MarkdownContent'
+import { ContentImageView } from '../components/ContentImageView'
 import { useContent } from '../hooks/useContent'
 import { useOllama } from '../hooks/useOllama'
+import { useSettings } from '../hooks/useSettings'
 import { 
   Brain, 
   FileText, 
@@ -16,25 +20,117 @@ import {
   Zap,
   ArrowLeft,
   Sparkles,
-  Clock
+  Clock,
+  X,
+  BookOpen,
+  Mic,
+  Image as ImageIcon
 } from 'lucide-react'
 import { toast } from 'sonner'
+import { summarizeDocument, SummaryProgress } from '../utils/summarizer'
+import { generateStructured } from '../utils/structuredOutput'
+import {
+  flashcardSetSchema,
+  quizSchema,
+  toFlashcards,
+  toQuizQuestions,
+  FlashcardSet,
+  Quiz
+} from '../utils/studySchemas'
+import { findChapter, flattenChapters, formatPageRange, getChapterText, updateChapter } from '../utils/chapters'
+import { isMarkdownContent } from '../utils/markdownImport'
+import { SUMMARY_SYSTEM_PROMPT, FLASHCARD_SYSTEM_PROMPT, QUIZ_SYSTEM_PROMPT } from '../utils/systemPrompts'
+
+// Typical response lengths, used to estimate streaming progress
+const SUMMARY_TOKENS = 300
+const FLASHCARD_TOKENS = 500
+const QUIZ_TOKENS = 700
+
+// Chapter scope value for generating from the whole document
+const WHOLE_DOCUMENT = 'all'
 
 const StudyDashboard: React.FC = () => {
   const navigate = useNavigate()
-  const { contents, currentContent, setCurrentContent, updateContent } = useContent()
-  const { generateText, isConnected } = useOllama()
+  const { contents, currentContent, isLoading, updateContent } = useContent()
+  const { generateText, getContextLength, isConnected, selectedModel } = useOllama()
+  const { getGenerationPresets } = useSettings()
+  const presets = getGenerationPresets(selectedModel)
   const [isGenerating, setIsGenerating] = useState(false)
   const [generationProgress, setGenerationProgress] = useState(0)
+  const [generatedTokens, setGeneratedTokens] = useState(0)
+  const [streamingText, setStreamingText] = useState('')
+  const [generationStatus, setGenerationStatus] = useState('')
+  const generationControllerRef = useRef<AbortController | null>(null)
+  const [chapterScope, setChapterScope] = useState(WHOLE_DOCUMENT)
   
   // Detect if we're running in a deployed environment
   const isDeployed = window.location.hostname !== 'localhost' && !window.location.hostname.includes('127.0.0.1')
 
+  // Falls back to the whole document when the chapter belongs to other content
+  const selectedChapter = findChapter(currentContent?.chapters, chapterScope)
+  const studyText = currentContent && selectedChapter
+    ? getChapterText(currentContent, selectedChapter)
+    : currentContent?.content || ''
+  const scopedSummary = selectedChapter ? selectedChapter.summary : currentContent?.summary
+  const scopedFlashcards = currentContent?.flashcards?.filter(card => card.chapterId === selectedChapter?.id) || []
+  const scopedQuiz = currentContent?.quiz?.filter(question => question.chapterId === selectedChapter?.id) || []
+
   useEffect(() => {
-    if (contents.length === 0) {
+    if (!isLoading && contents.length === 0) {
       navigate('/')
     }
-  }, [contents, navigate])
+  }, [contents, isLoading, navigate])
+
+  // Stop any running generation when leaving the dashboard
+  useEffect(() => {
+    return () => generationControllerRef.current?.abort()
+  }, [])
+
+  // Progress follows the streamed output against a rough expected length,
+  // since Ollama does not report how many tokens are still to come
+  const createTokenTracker = (expectedTokens: number, showText = false) => {
+    let tokens = 0
+    return (_token: string, text: string) => {
+      tokens++
+      setGeneratedTokens(tokens)
+      setGenerationProgress(Math.min(95, (tokens / expectedTokens) * 100))
+      if (showText) {
+        setStreamingText(text)
+      }
+    }
+  }
+
+  const startGeneration = (): AbortSignal => {
+    const controller = new AbortController()
+    generationControllerRef.current = controller
+    setIsGenerating(true)
+    return controller.signal
+  }
+
+  const cancelGeneration = () => {
+    generationControllerRef.current?.abort()
+  }
+
+  const isCancellation = (error: unknown) =>
+    error instanceof Error && error.name === 'AbortError'
+
+  const resetGeneration = () => {
+    generationControllerRef.current = null
+    setIsGenerating(false)
+    setGenerationProgress(0)
+    setGeneratedTokens(0)
+    setStreamingText('')
+    setGenerationStatus('')
+  }
+
+  const describeAttempt = (attempt: number) => {
+    setGenerationStatus(attempt > 1 ? `Output was malformed, retrying (attempt ${attempt})` : '')
+  }
+
+  const describeSummaryProgress = ({ phase, level, completed, total }: SummaryProgress) =>
+    phase === 'map'
+      ? `Summarizing part ${Math.min(completed + 1, total)} of ${total}`
+      : `Merging summaries (pass ${level}): ${Math.min(completed + 1, total)} of ${total}`
 
   const generateSummary = async () => {
     if (!currentContent) {
@@ -42,40 +138,77 @@ const StudyDashboard: React.FC = () => {
       return
     }
 
+    if (!studyText.trim()) {
+      toast.error('The selected chapter has no extracted text')
+      return
+    }
+
     // Allow demo mode to work even without connection
     if (!isConnected && !isDeployed) {
       toast.error('Ollama is not connected. Please ensure Ollama is running locally.')
       return
     }
 
-    setIsGenerating(true)
-    setGenerationProgress(20)
+    const signal = startGeneration()
 
     try {
-      const prompt = `Please provide a concise summary of the following content. Focus on the key points and main ideas:\n\n${currentContent.content}`
-      
-      setGenerationProgress(50)
-      
-      // Use demo response if deployed, otherwise use real AI
-      const summary = isDeployed 
-        ? `Demo Summary (Ollama not connected): This is a sample AI-generated summary of your content. In the local version with Ollama running, this would contain an actual AI-powered summary of your uploaded content with key insights and main points extracted automatically.`
-        : await generateText(prompt)
-        
-      setGenerationProgress(80)
+      let summary: string
+      if (isDeployed) {
+        // Use demo response if deployed, otherwise use real AI
+        summary = `Demo Summary (Ollama not connected): This is a sample AI-generated summary of your content. In the local version with Ollama running, this would contain an actual AI-powered summary of your uploaded content with key insights and main points extracted automatically.`
+      } else {
+        // Chunks are sized for the context window the requests actually get
+        const contextLength = await getContextLength(presets.summary.numCtx)
+        const parameters = presets.summary.numCtx === null
+          ? presets.summary
+          : { ...presets.summary, numCtx: contextLength }
+        const trackTokens = createTokenTracker(SUMMARY_TOKENS, true)
+        let isChunked = false
+
+        summary = await summarizeDocument(studyText, {
+          contextLength,
+          signal,
+          generate: (prompt, onToken) => generateText(prompt, {
+            system: SUMMARY_SYSTEM_PROMPT,
+            parameters,
+            onToken,
+            signal
+          }),
+          onProgress: (progress) => {
+            // Short documents are summarized in one call - let the token stream drive progress
+            if (progress.phase === 'map' && progress.total === 1) return
+            isChunked = true
+            setGenerationStatus(describeSummaryProgress(progress))
+            setGenerationProgress(progress.phase === 'map'
+              ? (progress.completed / progress.total) * 80
+              : 80 + (progress.completed / progress.total) * 15)
+          },
+          onToken: (token, text) => isChunked ? setStreamingText(text) : trackTokens(token, text)
+        })
+      }
 
       // Update content with summary
-      updateContent(currentContent.id, { summary })
+      if (selectedChapter) {
+        updateContent(currentContent.id, {
+          chapters: updateChapter(currentContent.chapters || [], selectedChapter.id, { summary })
+        })
+      } else {
+        updateContent(currentContent.id, { summary })
+      }
       
       setGenerationProgress(100)
       toast.success('Summary generated successfully!')
 
     } catch (error) {
+      if (isCancellation(error)) {
+        toast.info('Generation cancelled')
+        return
+      }
       console.error('Failed to generate summary:', error)
       const errorMessage = error instanceof Error ? error.message : 'Failed to generate summary'
       toast.error(errorMessage)
     } finally {
-      setIsGenerating(false)
-      setGenerationProgress(0)
+      resetGeneration()
     }
   }
 
@@ -85,58 +218,64 @@ const StudyDashboard: React.FC = () => {
       return
     }
 
+    if (!studyText.trim()) {
+      toast.error('The selected chapter has no extracted text')
+      return
+    }
+
     // Allow demo mode to work even without connection
     if (!isConnected && !isDeployed) {
       toast.error('Ollama is not connected. Please ensure Ollama is running locally.')
       return
     }
 
-    setIsGenerating(true)
-    setGenerationProgress(20)
+    const signal = startGeneration()
 
     try {
-      const prompt = `Create 10 flashcards from the following content. Format each flashcard as "Q: [question] | A: [answer]" on separate lines:\n\n${currentContent.content}`
-      
-      setGenerationProgress(50)
-      
+      const prompt = `Create 10 flashcards from the following content. Each flashcard has a "front" with a question and a "back" with its answer. Respond in JSON.\n\n${studyText}`
+
       // Use demo response if deployed, otherwise use real AI
-      const flashcardsText = isDeployed 
-        ? `Q: What is this demo showing? | A: This is a sample flashcard generated in demo mode
-Q: How do I get real AI flashcards? | A: Run this app locally with Ollama installed
-Q: What would real flashcards contain? | A: AI-generated questions and answers based on your actual content
-Q: Is this functionality working? | A: Yes, but with demo data instead of real AI generation`
-        : await generateText(prompt)
-        
-      setGenerationProgress(80)
-
-      // Parse flashcards
-      const flashcards = flashcardsText
-        .split('\n')
-        .filter(line => line.includes('Q:') && line.includes('A:'))
-        .map((line, index) => {
-          const [front, back] = line.split(' | A: ')
-          return {
-            id: `${currentContent.id}-flashcard-${index}`,
-            front: front.replace('Q: ', '').trim(),
-            back: back?.trim() || '',
-            difficulty: 'medium' as const
+      const flashcardSet: FlashcardSet = isDeployed
+        ? {
+            flashcards: [
+              { front: 'What is this demo showing?', back: 'This is a sample flashcard generated in demo mode' },
+              { front: 'How do I get real AI flashcards?', back: 'Run this app locally with Ollama installed' },
+              { front: 'What would real flashcards contain?', back: 'AI-generated questions and answers based on your actual content' },
+              { front: 'Is this functionality working?', back: 'Yes, but with demo data instead of real AI generation' }
+            ]
           }
-        })
-        .filter(card => card.front && card.back)
+        : await generateStructured(flashcardSetSchema, prompt, {
+            signal,
+            onAttempt: describeAttempt,
+            generate: (attemptPrompt, format) =>
+              generateText(attemptPrompt, {
+                system: FLASHCARD_SYSTEM_PROMPT,
+                parameters: presets.flashcards,
+                onToken: createTokenTracker(FLASHCARD_TOKENS),
+                signal,
+                format
+              })
+          })
 
-      // Update content with flashcards
-      updateContent(currentContent.id, { flashcards })
+      const flashcards = toFlashcards(flashcardSet, currentContent.id, selectedChapter?.id)
+
+      // Replace only the cards of the selected scope, keeping other chapters' cards
+      const otherFlashcards = (currentContent.flashcards || []).filter(card => card.chapterId !== selectedChapter?.id)
+      updateContent(currentContent.id, { flashcards: [...otherFlashcards, ...flashcards] })
       
       setGenerationProgress(100)
       toast.success(`Generated ${flashcards.length} flashcards!`)
 
     } catch (error) {
+      if (isCancellation(error)) {
+        toast.info('Generation cancelled')
+        return
+      }
       console.error('Failed to generate flashcards:', error)
       const errorMessage = error instanceof Error ? error.message : 'Failed to generate flashcards'
       toast.error(errorMessage)
     } finally {
-      setIsGenerating(false)
-      setGenerationProgress(0)
+      resetGeneration()
     }
   }
 
@@ -146,100 +285,100 @@ Q: Is this functionality working? | A: Yes, but with demo data instead of real A
       return
     }
 
+    if (!studyText.trim()) {
+      toast.error('The selected chapter has no extracted text')
+      return
+    }
+
     // Allow demo mode to work even without connection
     if (!isConnected && !isDeployed) {
       toast.error('Ollama is not connected. Please ensure Ollama is running locally.')
       return
     }
 
-    setIsGenerating(true)
-    setGenerationProgress(20)
+    const signal = startGeneration()
 
     try {
-      const prompt = `Create 5 multiple choice questions from the following content. Format each question as:
-Q: [question]
-A) [option 1]
-B) [option 2]
-C) [option 3]
-D) [option 4]
-Correct: [A/B/C/D]
-Explanation: [brief explanation]
-
-Content: ${currentContent.content}`
-      
-      setGenerationProgress(50)
-      
+      const prompt = `Create 5 multiple choice questions from the following content. Each question has exactly 4 "options", the zero-based index of the right option as "correctAnswer" and a brief "explanation" of why it is correct. Respond in JSON.
+
+Content: ${studyText}`
+
       // Use demo response if deployed, otherwise use real AI
-      const quizText = isDeployed 
-        ? `Q: What type of app is this?
-A) A real AI-powered learning platform
-B) A demo version of YouLearn.ai
-C) A simple text editor
-D) A file storage system
-Correct: B
-Explanation: This is a demo version that shows the interface and functionality, but uses sample responses instead of real AI generation.
-
-Q: How can you get real AI features?
-A) Pay for a premium subscription
-B) Wait for the next update
-C) Run the app locally with Ollama installed
-D) Contact customer support
-Correct: C
-Explanation: The real AI features work when you run this app locally with Ollama installed and running.`
-        : await generateText(prompt)
-        
-      setGenerationProgress(80)
-
-      // Parse quiz questions (simplified parsing)
-      const questions = []
-      const questionBlocks = quizText.split('Q:').filter(block => block.trim())
-      
-      for (let i = 0; i < questionBlocks.length && i < 5; i++) {
-        const block = questionBlocks[i]
-        const lines = block.split('\n').filter(line => line.trim())
-        
-        if (lines.length >= 6) {
-          const question = lines[0].trim()
-          const options = lines.slice(1, 5).map(line => line.replace(/^[A-D]\)\s*/, '').trim())
-          const correctLine = lines.find(line => line.toLowerCase().includes('correct:'))
-          const correctLetter = correctLine?.match(/[A-D]/)?.[0]
-          const correctAnswer = correctLetter ? ['A', 'B', 'C', 'D'].indexOf(correctLetter) : 0
-          
-          questions.push({
-            id: `${currentContent.id}-quiz-${i}`,
-            question,
-            options,
-            correctAnswer,
-            explanation: lines.find(line => line.toLowerCase().includes('explanation:'))?.replace(/explanation:\s*/i, '') || ''
+      const quiz: Quiz = isDeployed
+        ? {
+            questions: [
+              {
+                question: 'What type of app is this?',
+                options: ['A real AI-powered learning platform', 'A demo version of YouLearn.ai', 'A simple text editor', 'A file storage system'],
+                correctAnswer: 1,
+                explanation: 'This is a demo version that shows the interface and functionality, but uses sample responses instead of real AI generation.'
+              },
+              {
+                question: 'How can you get real AI features?',
+                options: ['Pay for a premium subscription', 'Wait for the next update', 'Run the app locally with Ollama installed', 'Contact customer support'],
+                correctAnswer: 2,
+                explanation: 'The real AI features work when you run this app locally with Ollama installed and running.'
+              }
+            ]
+          }
+        : await generateStructured(quizSchema, prompt, {
+            signal,
+            onAttempt: describeAttempt,
+            generate: (attemptPrompt, format) =>
+              generateText(attemptPrompt, {
+                system: QUIZ_SYSTEM_PROMPT,
+                parameters: presets.quiz,
+                onToken: createTokenTracker(QUIZ_TOKENS),
+                signal,
+                format
+              })
           })
-        }
-      }
 
-      // Update content with quiz
-      updateContent(currentContent.id, { quiz: questions })
+      const questions = toQuizQuestions(quiz, currentContent.id, selectedChapter?.id)
+
+      // Replace only the questions of the selected scope
+      const otherQuestions = (currentContent.quiz || []).filter(question => question.chapterId !== selectedChapter?.id)
+      updateContent(currentContent.id, { quiz: [...otherQuestions, ...questions] })
       
       setGenerationProgress(100)
       toast.success(`Generated ${questions.length} quiz questions!`)
 
     } catch (error) {
+      if (isCancellation(error)) {
+        toast.info('Generation cancelled')
+        return
+      }
       console.error('Failed to generate quiz:', error)
       const errorMessage = error instanceof Error ? error.message : 'Failed to generate quiz'
       toast.error(errorMessage)
     } finally {
-      setIsGenerating(false)
-      setGenerationProgress(0)
+      resetGeneration()
     }
   }
 
   const getContentIcon = (type: string) => {
     switch (type) {
       case 'pdf': return <FileText className="h-5 w-5" />
+      case 'epub': return <BookOpen className="h-5 w-5" />
+      case 'audio': return <Mic className="h-5 w-5" />
+      case 'image': return <ImageIcon className="h-5 w-5" />
       case 'youtube': return <Youtube className="h-5 w-5" />
       case 'text': return <Type className="h-5 w-5" />
       default: return <FileText className="h-5 w-5" />
     }
   }
 
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-amber-50 p-8">
+        <div className="max-w-4xl mx-auto text-center">
+          <Brain className="h-16 w-16 text-primary mx-auto mb-4 animate-pulse" />
+          <p className="text-gray-600">Loading your library...</p>
+        </div>
+      </div>
+    )
+  }
+
   if (!currentContent) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-amber-50 p-8">
@@ -315,16 +454,62 @@ Explanation: The real AI features work when you run this app locally with Ollama
               Added {currentContent.createdAt.toLocaleDateString()}
             </div>
             
-            {currentContent.summary && (
+            {currentContent.chapters && currentContent.chapters.length > 0 && (
+              <div className="flex items-center gap-2 mb-4">
+                <BookOpen className="h-4 w-4 text-gray-500" />
+                <Select value={selectedChapter ? chapterScope : WHOLE_DOCUMENT} onValueChange={setChapterScope}>
+                  <SelectTrigger className="w-full max-w-md">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={WHOLE_DOCUMENT}>Whole document</SelectItem>
+                    {flattenChapters(currentContent.chapters).map(({ chapter, depth }) => (
+                      <SelectItem key={chapter.id} value={chapter.id}>
+                        <span style={{ paddingLeft: depth * 12 }}>
+                          {chapter.title}
+                          {/* EPUB "pages" are spine documents, not printed pages */}
+                          {currentContent.type === 'pdf' && (
+                            <span className="text-gray-500"> ({formatPageRange(chapter)})</span>
+                          )}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {scopedSummary && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
-                <h4 className="font-medium text-blue-900 mb-2">AI Summary</h4>
-                <p className="text-blue-800 text-sm">{currentContent.summary}</p>
+                <h4 className="font-medium text-blue-900 mb-2">
+                  {selectedChapter ? `Summary: ${selectedChapter.title}` : 'AI Summary'}
+                </h4>
+                <p className="text-blue-800 text-sm">{scopedSummary}</p>
               </div>
             )}
             
-            <div className="text-sm text-gray-600 line-clamp-3">
-              {currentContent.content.substring(0, 300)}...
-            </div>
+            {currentContent.image ? (
+              // Photos stay next to their text so OCR mistakes can be spotted
+              <div className="grid md:grid-cols-2 gap-4">
+                <ContentImageView
+                  image={currentContent.image}
+                  alt={currentContent.title}
+                  className="max-h-96"
+                />
+                <div className="max-h-96 overflow-y-auto border rounded-lg p-4 text-sm text-gray-700 whitespace-pre-wrap">
+                  {currentContent.content}
+                </div>
+              </div>
+            ) : isMarkdownContent(currentContent) ? (
+              <MarkdownContent
+                markdown={currentContent.content}
+                className="max-h-96 overflow-y-auto border rounded-lg p-4"
+              />
+            ) : (
+              <div className="text-sm text-gray-600 line-clamp-3">
+                {currentContent.content.substring(0, 300)}...
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -335,8 +520,25 @@ Explanation: The real AI features work when you run this app locally with Ollama
               <div className="text-center mb-4">
                 <Sparkles className="h-8 w-8 text-primary mx-auto mb-2 animate-pulse" />
                 <p className="font-medium">Generating AI content...</p>
+                {generationStatus && (
+                  <p className="text-sm text-gray-600">{generationStatus}</p>
+                )}
+                {generatedTokens > 0 && (
+                  <p className="text-sm text-gray-500">{generatedTokens} tokens generated</p>
+                )}
+              </div>
+              <div className="flex items-center gap-4">
+                <Progress value={generationProgress} className="flex-1" />
+                <Button variant="outline" size="sm" onClick={cancelGeneration}>
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
               </div>
-              <Progress value={generationProgress} className="w-full" />
+              {streamingText && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mt-4">
+                  <p className="text-blue-800 text-sm whitespace-pre-wrap">{streamingText}</p>
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -356,7 +558,7 @@ Explanation: The real AI features work when you run this app locally with Ollama
                   disabled={isGenerating}
                   className="w-full"
                 >
-                  {currentContent.summary ? 'Regenerate' : 'Generate'} Summary
+                  {scopedSummary ? 'Regenerate' : 'Generate'} Summary
                   {isDeployed && <span className="ml-1 text-xs">(Demo)</span>}
                 </Button>
               </div>
@@ -376,7 +578,7 @@ Explanation: The real AI features work when you run this app locally with Ollama
                   disabled={isGenerating}
                   className="w-full"
                 >
-                  {currentContent.flashcards?.length ? 'Regenerate' : 'Generate'} Flashcards
+                  {scopedFlashcards.length ? 'Regenerate' : 'Generate'} Flashcards
                   {isDeployed && <span className="ml-1 text-xs">(Demo)</span>}
                 </Button>
               </div>
@@ -396,7 +598,7 @@ Explanation: The real AI features work when you run this app locally with Ollama
                   disabled={isGenerating}
                   className="w-full"
                 >
-                  {currentContent.quiz?.length ? 'Regenerate' : 'Generate'} Quiz
+                  {scopedQuiz.length ? 'Regenerate' : 'Generate'} Quiz
                   {isDeployed && <span className="ml-1 text-xs">(Demo)</span>}
                 </Button>
               </div>
@@ -1,26 +1,157 @@
 export interface StudyContent {
   id: string
   title: string
-  type: 'pdf' | 'youtube' | 'text'
+  type: 'pdf' | 'epub' | 'docx' | 'odt' | 'markdown' | 'audio' | 'image' | 'youtube' | 'text'
   content: string
+  // Text per source page, when the format has pages (PDF) or sections (EPUB
+  // spine documents, numbered in reading order)
+  pages?: ContentPage[]
+  // Timestamped transcript, when the source is a recording (YouTube captions,
+  // transcribed audio and video files)
+  segments?: TranscriptSegment[]
+  videoId?: string
+  // The photo or scan the text was recognized from
+  image?: ContentImage
+  // Table of contents resolved to page ranges
+  chapters?: Chapter[]
+  // Set when imported together with other files as a course
+  course?: CourseRef
   summary?: string
   flashcards?: Flashcard[]
   quiz?: QuizQuestion[]
+  quizAttempts?: QuizAttempt[]
+  chatHistory?: ChatMessage[]
   createdAt: Date
 }
 
+export interface ContentPage {
+  pageNumber: number
+  text: string
+  // Layout in reading order, when extracted from a PDF
+  blocks?: LayoutBlock[]
+  // What a vision model saw in the page's figures, also appended to text
+  figureDescription?: string
+  width?: number
+  height?: number
+}
+
+// PDF user space units, origin at the bottom-left of the page
+export interface BoundingBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface LayoutBlock {
+  type: 'heading' | 'paragraph'
+  text: string
+  // 1 for the largest heading size on the page
+  level?: number
+  fontSize: number
+  bbox: BoundingBox
+}
+
+export interface ContentImage {
+  // The original file, stored as-is in IndexedDB
+  blob: Blob
+  // Pixel size, after EXIF rotation
+  width: number
+  height: number
+}
+
+export interface CourseRef {
+  id: string
+  title: string
+}
+
+export interface Chapter {
+  id: string
+  title: string
+  // Inclusive, 1-based page range
+  startPage: number
+  endPage: number
+  summary?: string
+  children: Chapter[]
+}
+
+export interface TranscriptSegment {
+  // Seconds from the start of the recording
+  start: number
+  end: number
+  text: string
+}
+
 export interface Flashcard {
   id: string
   front: string
   back: string
+  // Set when generated from a single chapter
+  chapterId?: string
   difficulty: 'easy' | 'medium' | 'hard'
   lastReviewed?: Date
+  // SM-2 scheduling state, unset until the card is first reviewed
+  dueDate?: Date
+  interval?: number
+  easeFactor?: number
+  repetitions?: number
 }
 
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
 export interface QuizQuestion {
   id: string
   question: string
   options: string[]
   correctAnswer: number
   explanation?: string
-}
\ No newline at end of file
+  chapterId?: string
+}
+
+export interface QuizAttempt {
+  id: string
+  completedAt: Date
+  // Selected option index per question, in quiz order
+  answers: number[]
+  score: number
+  total: number
+}
+
+// A retrievable passage of a StudyContent with where it came from
+export interface ContentChunk {
+  id: string
+  index: number
+  text: string
+  page?: number
+  // Seconds into the recording where the passage starts
+  startTime?: number
+}
+
+export interface EmbeddedChunk extends ContentChunk {
+  // Hash of the chunk text, used to skip re-embedding unchanged passages
+  hash: string
+  embedding: number[]
+}
+
+// Stored separately from StudyContent so loading the library stays cheap
+export interface EmbeddingIndex {
+  contentId: string
+  model: string
+  chunks: EmbeddedChunk[]
+  updatedAt: Date
+}
+
+export interface Citation {
+  chunkId: string
+  // Human-readable location, e.g. "p. 12"
+  label: string
+  excerpt: string
+}
+
+export interface ChatMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  citations?: Citation[]
+  createdAt: Date
+}
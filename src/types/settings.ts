@@ -0,0 +1,52 @@
+export interface ImportSettings {
+  // Largest file accepted for import, in megabytes
+  maxFileSizeMB: number
+  // Most pages extracted from a single PDF
+  maxPages: number
+  // Describe figures in PDFs with the Ollama vision model
+  describeFigures: boolean
+}
+
+// Features that generate text, each with its own sampling parameters
+export type GenerationTask = 'summary' | 'flashcards' | 'quiz' | 'tutor'
+
+// Sent to Ollama as request options
+export interface GenerationParameters {
+  temperature: number
+  topP: number
+  // Context window in tokens, null to keep the model's own (its Modelfile's
+  // num_ctx, or Ollama's default)
+  numCtx: number | null
+  // Most tokens to generate, -1 for no limit
+  numPredict: number
+  // Fixed seed for repeatable output, null for a random one
+  seed: number | null
+}
+
+export type GenerationPresets = Record<GenerationTask, GenerationParameters>
+
+export interface AppSettings {
+  import: ImportSettings
+  // Keyed by model name - models without an entry use DEFAULT_GENERATION_PRESETS
+  generation: Record<string, GenerationPresets>
+}
+
+export const GENERATION_TASKS: GenerationTask[] = ['summary', 'flashcards', 'quiz', 'tutor']
+
+// Quizzes are deterministic so the same material gives the same questions;
+// the tutor samples more freely to vary its explanations
+export const DEFAULT_GENERATION_PRESETS: GenerationPresets = {
+  summary: { temperature: 0.3, topP: 0.9, numCtx: null, numPredict: -1, seed: null },
+  flashcards: { temperature: 0.2, topP: 0.9, numCtx: null, numPredict: -1, seed: null },
+  quiz: { temperature: 0, topP: 1, numCtx: null, numPredict: -1, seed: 42 },
+  tutor: { temperature: 0.8, topP: 0.95, numCtx: null, numPredict: -1, seed: null }
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  import: {
+    maxFileSizeMB: 50,
+    maxPages: 100,
+    describeFigures: false
+  },
+  generation: {}
+}
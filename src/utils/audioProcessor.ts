@@ -0,0 +1,197 @@
+import { TranscriptSegment } from '../types/content'
+import type { TranscriptionWorkerRequest, TranscriptionWorkerResponse } from '../workers/transcription.worker'
+
+// Whisper expects 16 kHz mono audio
+export const AUDIO_SAMPLE_RATE = 16000
+
+const DEFAULT_MAX_FILE_SIZE = 500 * 1024 * 1024 // 500MB
+
+const AUDIO_EXTENSIONS = /\.(mp3|wav|m4a|aac|ogg|oga|opus|flac|weba|webm|mp4|m4v|mov)$/i
+
+export interface AudioProcessingOptions {
+  onProgress?: (progress: number) => void
+  // Milliseconds without progress before giving up
+  timeout?: number
+  // Largest accepted file, in bytes
+  maxFileSize?: number
+  // Aborting stops transcription and rejects with a CANCELLED error
+  signal?: AbortSignal
+}
+
+export interface AudioProcessingResult {
+  segments: TranscriptSegment[]
+  // Length of the recording, in seconds
+  duration: number
+}
+
+export class AudioProcessingError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'AudioProcessingError'
+  }
+}
+
+export const isAudioFile = (file: File): boolean =>
+  /^(audio|video)\//.test(file.type) || AUDIO_EXTENSIONS.test(file.name)
+
+export const isAudioProcessingAvailable = (): boolean => {
+  // Decoding needs Web Audio on the main thread, recognition runs in a module worker
+  return typeof Worker !== 'undefined' && typeof OfflineAudioContext !== 'undefined'
+}
+
+const formatFileSize = (bytes: number) => `${Math.round(bytes / (1024 * 1024))}MB`
+
+// Decodes any format the browser can play (including the audio track of
+// videos) and resamples it to 16 kHz mono
+const decodeAudioFile = async (file: File): Promise<Float32Array> => {
+  const data = await file.arrayBuffer()
+  // Decoding into an offline context resamples to its sample rate
+  const context = new OfflineAudioContext(1, 1, AUDIO_SAMPLE_RATE)
+
+  let buffer: AudioBuffer
+  try {
+    buffer = await context.decodeAudioData(data)
+  } catch (error) {
+    console.error('Failed to decode audio:', error)
+    throw new AudioProcessingError('Audio could not be decoded', 'DECODE_FAILED')
+  }
+
+  if (buffer.length === 0) {
+    throw new AudioProcessingError('The file contains no audio', 'NO_AUDIO')
+  }
+
+  if (buffer.numberOfChannels === 1) {
+    // Copied, since the samples are transferred to the worker
+    return buffer.getChannelData(0).slice()
+  }
+
+  const mono = new Float32Array(buffer.length)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel)
+    for (let i = 0; i < samples.length; i++) {
+      mono[i] += samples[i] / buffer.numberOfChannels
+    }
+  }
+  return mono
+}
+
+// Transcription runs in a dedicated worker, which is terminated on timeout
+// and cancellation - the only way to stop ONNX Runtime mid-inference
+export const processAudioFile = async (
+  file: File,
+  options: AudioProcessingOptions = {}
+): Promise<AudioProcessingResult> => {
+  const { onProgress, timeout = 10 * 60 * 1000, maxFileSize = DEFAULT_MAX_FILE_SIZE, signal } = options
+
+  if (!isAudioProcessingAvailable()) {
+    throw new AudioProcessingError('Audio transcription is not available', 'UNAVAILABLE')
+  }
+
+  if (!isAudioFile(file)) {
+    throw new AudioProcessingError('File is not an audio or video recording', 'INVALID_TYPE')
+  }
+
+  if (file.size > maxFileSize) {
+    throw new AudioProcessingError(`Recording is too large (max ${formatFileSize(maxFileSize)})`, 'FILE_TOO_LARGE')
+  }
+
+  if (signal?.aborted) {
+    throw new AudioProcessingError('Transcription was cancelled', 'CANCELLED')
+  }
+
+  onProgress?.(2)
+  const audio = await decodeAudioFile(file)
+  const duration = audio.length / AUDIO_SAMPLE_RATE
+  onProgress?.(10)
+
+  if (signal?.aborted) {
+    throw new AudioProcessingError('Transcription was cancelled', 'CANCELLED')
+  }
+
+  const worker = new Worker(new URL('../workers/transcription.worker.ts', import.meta.url), { type: 'module' })
+
+  const segments = await new Promise<TranscriptSegment[]>((resolve, reject) => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+
+    const cleanup = () => {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', cancel)
+      worker.terminate()
+    }
+
+    const fail = (error: AudioProcessingError) => {
+      cleanup()
+      reject(error)
+    }
+
+    // Long recordings take a while, so the timeout restarts on progress
+    const restartTimeout = () => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(() => fail(new AudioProcessingError('Transcription timed out', 'TIMEOUT')), timeout)
+    }
+
+    function cancel() {
+      fail(new AudioProcessingError('Transcription was cancelled', 'CANCELLED'))
+    }
+
+    worker.onmessage = (event: MessageEvent<TranscriptionWorkerResponse>) => {
+      const response = event.data
+      switch (response.type) {
+        case 'progress':
+          restartTimeout()
+          // Decoding took the first 10%
+          onProgress?.(10 + response.progress * 0.9)
+          break
+        case 'result':
+          cleanup()
+          onProgress?.(100)
+          resolve(response.segments)
+          break
+        case 'error':
+          fail(new AudioProcessingError(response.message, response.code))
+          break
+      }
+    }
+
+    worker.onerror = (event) => {
+      event.preventDefault()
+      fail(new AudioProcessingError(`Transcription failed: ${event.message}`, 'TRANSCRIPTION_FAILED'))
+    }
+
+    signal?.addEventListener('abort', cancel)
+    restartTimeout()
+    const request: TranscriptionWorkerRequest = { type: 'transcribe', audio }
+    worker.postMessage(request, [audio.buffer])
+  })
+
+  if (segments.length === 0) {
+    throw new AudioProcessingError('No speech was recognized', 'NO_SPEECH')
+  }
+
+  return { segments, duration }
+}
+
+export const getAudioErrorMessage = (error: AudioProcessingError): string => {
+  switch (error.code) {
+    case 'UNAVAILABLE':
+      return 'Audio transcription is not supported in this browser.'
+    case 'INVALID_TYPE':
+      return 'Please choose an audio or video recording.'
+    case 'FILE_TOO_LARGE':
+      return `${error.message}. Split the recording into parts, or raise the file size limit in Settings.`
+    case 'DECODE_FAILED':
+      return 'This recording could not be decoded. Try converting it to MP3, M4A or WAV.'
+    case 'NO_AUDIO':
+      return 'The file contains no audio.'
+    case 'MODEL_MISSING':
+      return 'The speech recognition model is not installed. Run "npm run models:whisper" and reload the app.'
+    case 'NO_SPEECH':
+      return 'No speech was recognized in this recording.'
+    case 'TIMEOUT':
+      return 'Transcription took too long and was stopped. Try a shorter recording.'
+    case 'CANCELLED':
+      return 'Transcription cancelled'
+    default:
+      return 'Failed to transcribe the recording. Please try again.'
+  }
+}
@@ -0,0 +1,188 @@
+import { TranscriptSegment } from '../types/content'
+
+export type CaptionFormat = 'vtt' | 'srt' | 'json3'
+
+export interface CaptionParseResult {
+  segments: TranscriptSegment[]
+  format: CaptionFormat
+  // Transcript text with paragraph breaks at pauses, for summaries and flashcards
+  text: string
+}
+
+export class CaptionParseError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'CaptionParseError'
+  }
+}
+
+// Start a new paragraph after a pause this long, or once a paragraph spans this much time
+const PARAGRAPH_PAUSE_SECONDS = 2
+const PARAGRAPH_MAX_SECONDS = 60
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' '
+}
+
+const cleanCueText = (text: string): string =>
+  text
+    .replace(/<[^>]+>/g, '') // Styling and karaoke timing tags
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim()
+
+// Accepts "01:02:03.456", "02:03.456" and the SRT variant "01:02:03,456"
+export const parseTimestamp = (value: string): number => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})$/)
+  if (!match) {
+    throw new CaptionParseError(`Invalid timestamp "${value}"`, 'INVALID_TIMESTAMP')
+  }
+  const [, hours = '0', minutes, seconds, fraction] = match
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000
+}
+
+export const formatTimestamp = (totalSeconds: number): string => {
+  const seconds = Math.floor(totalSeconds)
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const rest = String(seconds % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`
+}
+
+// Parses the "start --> end" cue blocks shared by WebVTT and SRT
+const parseCueBlocks = (source: string): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = []
+  let lastLine = ''
+
+  for (const block of source.replace(/\r\n?/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex(line => line.includes('-->'))
+    if (timingIndex === -1) continue // Header, NOTE, STYLE or numbering-only blocks
+
+    const [startValue, endValue] = lines[timingIndex].split('-->')
+    const start = parseTimestamp(startValue)
+    // Cue settings such as "align:start position:0%" follow the end time
+    const end = parseTimestamp(endValue.trim().split(/\s+/)[0])
+
+    // Auto-generated YouTube captions repeat the previous line at the top of
+    // each cue as the text scrolls - keep only the lines that are new
+    const newLines = lines
+      .slice(timingIndex + 1)
+      .map(cleanCueText)
+      .filter(line => line && line !== lastLine)
+
+    if (newLines.length === 0) continue
+    lastLine = newLines[newLines.length - 1]
+    segments.push({ start, end, text: newLines.join(' ') })
+  }
+
+  return segments
+}
+
+interface Json3Event {
+  tStartMs?: number
+  dDurationMs?: number
+  segs?: { utf8?: string }[]
+}
+
+const parseJson3 = (source: string): TranscriptSegment[] => {
+  let data: { events?: Json3Event[] }
+  try {
+    data = JSON.parse(source)
+  } catch (error) {
+    throw new CaptionParseError('Caption file is not valid JSON', 'INVALID_FORMAT')
+  }
+
+  if (!Array.isArray(data.events)) {
+    throw new CaptionParseError('JSON caption file has no "events" list', 'INVALID_FORMAT')
+  }
+
+  return data.events
+    .filter(event => event.segs?.length)
+    .map(event => {
+      const start = (event.tStartMs || 0) / 1000
+      return {
+        start,
+        end: start + (event.dDurationMs || 0) / 1000,
+        text: cleanCueText(event.segs!.map(seg => seg.utf8 || '').join(''))
+      }
+    })
+    .filter(segment => segment.text)
+}
+
+export const detectCaptionFormat = (fileName: string, source: string): CaptionFormat => {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.vtt') || source.trimStart().startsWith('WEBVTT')) return 'vtt'
+  if (name.endsWith('.srt')) return 'srt'
+  if (name.endsWith('.json3') || name.endsWith('.json') || source.trimStart().startsWith('{')) return 'json3'
+  if (source.includes('-->')) return 'srt'
+  throw new CaptionParseError('Unsupported caption format. Use a WebVTT, SRT or YouTube json3 file.', 'UNSUPPORTED_FORMAT')
+}
+
+// With timestamps, each paragraph starts with its time, e.g. "[12:05]", so
+// generated summaries and flashcards can refer back to the recording
+export const segmentsToText = (segments: TranscriptSegment[], options: { timestamps?: boolean } = {}): string => {
+  const paragraphs: string[] = []
+  let current: string[] = []
+  let paragraphStart = 0
+  let previousEnd = 0
+
+  for (const segment of segments) {
+    const isPause = segment.start - previousEnd >= PARAGRAPH_PAUSE_SECONDS
+    const isLong = segment.start - paragraphStart >= PARAGRAPH_MAX_SECONDS
+    if (current.length && (isPause || isLong)) {
+      paragraphs.push(current.join(' '))
+      current = []
+    }
+    if (!current.length) {
+      paragraphStart = segment.start
+      if (options.timestamps) current.push(`[${formatTimestamp(segment.start)}]`)
+    }
+    current.push(segment.text)
+    previousEnd = segment.end
+  }
+
+  if (current.length) paragraphs.push(current.join(' '))
+  return paragraphs.join('\n\n')
+}
+
+export const parseCaptions = (fileName: string, source: string): CaptionParseResult => {
+  const format = detectCaptionFormat(fileName, source)
+  const segments = format === 'json3' ? parseJson3(source) : parseCueBlocks(source)
+
+  if (segments.length === 0) {
+    throw new CaptionParseError('No captions found in file', 'NO_CAPTIONS')
+  }
+
+  segments.sort((a, b) => a.start - b.start)
+  return { segments, format, text: segmentsToText(segments) }
+}
+
+// Tools like yt-dlp name caption files "Video Title [dQw4w9WgXcQ].en.vtt"
+export const parseCaptionFileName = (fileName: string): { title: string; videoId?: string } => {
+  const base = fileName.replace(/\.(vtt|srt|json3?)$/i, '').replace(/\.[a-z]{2}(-[a-zA-Z]+)?$/, '')
+  const idMatch = base.match(/\[([\w-]{11})\]\s*$/)
+  return {
+    title: base.replace(/\s*\[[\w-]{11}\]\s*$/, '').trim() || fileName,
+    videoId: idMatch?.[1]
+  }
+}
+
+export const getCaptionErrorMessage = (error: CaptionParseError): string => {
+  switch (error.code) {
+    case 'UNSUPPORTED_FORMAT':
+      return 'Unsupported caption file. Please use a WebVTT (.vtt), SRT (.srt) or YouTube json3 file.'
+    case 'INVALID_FORMAT':
+    case 'INVALID_TIMESTAMP':
+      return `The caption file could not be read: ${error.message}`
+    case 'NO_CAPTIONS':
+      return 'No captions were found in this file.'
+    default:
+      return 'An unexpected error occurred while reading the caption file.'
+  }
+}
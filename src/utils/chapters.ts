@@ -0,0 +1,68 @@
+import { Chapter, StudyContent } from '../types/content'
+
+// An outline entry resolved to the page it points at, before page ranges are known
+export interface OutlineEntry {
+  title: string
+  // 1-based, undefined when the entry has no resolvable destination
+  page?: number
+  children: OutlineEntry[]
+}
+
+const findFirstPage = (entries: OutlineEntry[]): number | undefined => {
+  for (const entry of entries) {
+    const page = entry.page ?? findFirstPage(entry.children)
+    if (page !== undefined) return page
+  }
+  return undefined
+}
+
+// Turns a resolved outline into chapters with inclusive page ranges: each
+// chapter runs until the next sibling starts, or to the end of its parent.
+// Entries without a page inherit the first page of their children.
+export const buildChapterTree = (entries: OutlineEntry[], lastPage: number, idPrefix = 'chapter'): Chapter[] => {
+  const withPages = entries
+    .map(entry => ({ entry, page: entry.page ?? findFirstPage(entry.children) }))
+    .filter((item): item is { entry: OutlineEntry; page: number } => item.page !== undefined && item.page <= lastPage)
+    .sort((a, b) => a.page - b.page)
+
+  return withPages.map(({ entry, page }, index) => {
+    const next = withPages[index + 1]
+    const endPage = next ? Math.max(page, next.page - 1) : lastPage
+    const id = `${idPrefix}-${index + 1}`
+    return {
+      id,
+      title: entry.title.trim() || `Section ${index + 1}`,
+      startPage: page,
+      endPage,
+      children: buildChapterTree(entry.children, endPage, id)
+    }
+  })
+}
+
+export const flattenChapters = (chapters: Chapter[], depth = 0): { chapter: Chapter; depth: number }[] =>
+  chapters.flatMap(chapter => [{ chapter, depth }, ...flattenChapters(chapter.children, depth + 1)])
+
+export const findChapter = (chapters: Chapter[] | undefined, id: string): Chapter | undefined =>
+  flattenChapters(chapters || []).find(item => item.chapter.id === id)?.chapter
+
+export const updateChapter = (chapters: Chapter[], id: string, updates: Partial<Chapter>): Chapter[] =>
+  chapters.map(chapter =>
+    chapter.id === id
+      ? { ...chapter, ...updates }
+      : { ...chapter, children: updateChapter(chapter.children, id, updates) }
+  )
+
+export const getChapterText = (content: StudyContent, chapter: Chapter): string =>
+  (content.pages || [])
+    .filter(page => page.pageNumber >= chapter.startPage && page.pageNumber <= chapter.endPage)
+    .map(page => page.text)
+    .join('\n\n')
+
+export const formatPageRange = (chapter: Chapter): string =>
+  chapter.startPage === chapter.endPage ? `p. ${chapter.startPage}` : `pp. ${chapter.startPage}-${chapter.endPage}`
+
+// Drops chapters none of whose pages were imported, e.g. after a page range selection
+export const filterChaptersByPages = (chapters: Chapter[], pages: Set<number>): Chapter[] =>
+  chapters
+    .filter(chapter => [...pages].some(page => page >= chapter.startPage && page <= chapter.endPage))
+    .map(chapter => ({ ...chapter, children: filterChaptersByPages(chapter.children, pages) }))
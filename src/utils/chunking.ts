@@ -0,0 +1,69 @@
+import { StudyContent, ContentChunk, TranscriptSegment } from '../types/content'
+import { splitIntoChunks, estimateTokens } from './summarizer'
+import { formatTimestamp } from './captionParser'
+
+// Small enough that several retrieved passages fit in one prompt
+export const RETRIEVAL_CHUNK_TOKENS = 200
+
+interface ContentSection {
+  text: string
+  page?: number
+  startTime?: number
+}
+
+export type ChunkSource = Pick<StudyContent, 'id' | 'content' | 'pages' | 'segments'>
+
+// Groups consecutive transcript segments into passages that start at a known time
+const groupSegments = (segments: TranscriptSegment[], maxTokens: number): ContentSection[] => {
+  const sections: ContentSection[] = []
+  let current: TranscriptSegment[] = []
+
+  for (const segment of segments) {
+    const text = [...current, segment].map(item => item.text).join(' ')
+    if (current.length && estimateTokens(text) > maxTokens) {
+      sections.push({ text: current.map(item => item.text).join(' '), startTime: current[0].start })
+      current = []
+    }
+    current.push(segment)
+  }
+
+  if (current.length) {
+    sections.push({ text: current.map(item => item.text).join(' '), startTime: current[0].start })
+  }
+  return sections
+}
+
+// Chunks never cross a page boundary and transcript passages keep their start
+// time, so every passage can be cited precisely
+const getSections = (content: ChunkSource, maxTokens: number): ContentSection[] => {
+  if (content.segments?.length) {
+    return groupSegments(content.segments, maxTokens)
+  }
+  if (content.pages?.length) {
+    return content.pages.map(page => ({ text: page.text, page: page.pageNumber }))
+  }
+  return [{ text: content.content }]
+}
+
+export const chunkContent = (content: ChunkSource, maxTokens = RETRIEVAL_CHUNK_TOKENS): ContentChunk[] => {
+  let index = 0
+  return getSections(content, maxTokens).flatMap(section =>
+    splitIntoChunks(section.text, maxTokens).map(text => {
+      const chunk: ContentChunk = {
+        id: `${content.id}-chunk-${index}`,
+        index,
+        text,
+        page: section.page,
+        startTime: section.startTime
+      }
+      index++
+      return chunk
+    })
+  )
+}
+
+export const formatChunkLocation = (chunk: ContentChunk): string => {
+  if (chunk.page !== undefined) return `p. ${chunk.page}`
+  if (chunk.startTime !== undefined) return formatTimestamp(chunk.startTime)
+  return `passage ${chunk.index + 1}`
+}
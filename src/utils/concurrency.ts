@@ -0,0 +1,19 @@
+// Runs task for every item, starting them in order with at most `limit`
+// running at once. Tasks should handle their own errors - the first
+// rejection rejects the whole run while the other tasks keep going.
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  let nextIndex = 0
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      await task(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext))
+}
@@ -0,0 +1,174 @@
+import { StudyContent, EmbeddingIndex } from '../types/content'
+
+const DB_NAME = 'youlearn'
+const DB_VERSION = 2
+const CONTENT_STORE = 'contents'
+const EMBEDDING_STORE = 'embeddings'
+
+export class ContentStorageError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'ContentStorageError'
+  }
+}
+
+// Each entry upgrades the database from the previous version to its key.
+// Never edit a released migration - add a new version instead.
+const migrations: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+  1: (db) => {
+    const store = db.createObjectStore(CONTENT_STORE, { keyPath: 'id' })
+    store.createIndex('createdAt', 'createdAt')
+  },
+  2: (db) => {
+    db.createObjectStore(EMBEDDING_STORE, { keyPath: 'contentId' })
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export const isContentStorageAvailable = (): boolean => {
+  try {
+    return typeof indexedDB !== 'undefined'
+  } catch (error) {
+    return false
+  }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'))
+  })
+
+export const openContentDatabase = (): Promise<IDBDatabase> => {
+  if (!isContentStorageAvailable()) {
+    return Promise.reject(new ContentStorageError('IndexedDB is not available in this browser', 'UNAVAILABLE'))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result
+        const transaction = request.transaction!
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          migrations[version]?.(db, transaction)
+        }
+      }
+
+      request.onsuccess = () => {
+        const db = request.result
+        // Another tab upgraded the schema - close so it is not blocked
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        resolve(db)
+      }
+
+      request.onerror = () => {
+        dbPromise = null
+        reject(new ContentStorageError(`Failed to open database: ${request.error?.message}`, 'OPEN_ERROR'))
+      }
+
+      request.onblocked = () => {
+        console.warn('Content database upgrade is blocked by another open tab')
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+// IndexedDB keeps Date objects through structured cloning, but records written
+// by older versions or imported from JSON may carry ISO strings instead.
+const toDate = (value: Date | string | number | undefined): Date | undefined =>
+  value === undefined ? undefined : value instanceof Date ? value : new Date(value)
+
+const reviveContent = (record: StudyContent): StudyContent => ({
+  ...record,
+  createdAt: toDate(record.createdAt) ?? new Date(),
+  flashcards: record.flashcards?.map(card => ({
+    ...card,
+    lastReviewed: toDate(card.lastReviewed),
+    dueDate: toDate(card.dueDate)
+  })),
+  quizAttempts: record.quizAttempts?.map(attempt => ({
+    ...attempt,
+    completedAt: toDate(attempt.completedAt) ?? new Date()
+  })),
+  chatHistory: record.chatHistory?.map(message => ({
+    ...message,
+    createdAt: toDate(message.createdAt) ?? new Date()
+  }))
+})
+
+export const loadContents = async (): Promise<StudyContent[]> => {
+  const db = await openContentDatabase()
+  const transaction = db.transaction(CONTENT_STORE, 'readonly')
+  const records = await requestToPromise<StudyContent[]>(
+    transaction.objectStore(CONTENT_STORE).index('createdAt').getAll()
+  )
+  return records.map(reviveContent)
+}
+
+export const saveContent = async (content: StudyContent): Promise<void> => {
+  const db = await openContentDatabase()
+  const transaction = db.transaction(CONTENT_STORE, 'readwrite')
+  transaction.objectStore(CONTENT_STORE).put(content)
+  await transactionDone(transaction)
+}
+
+// Read-modify-write in a single transaction so rapid successive updates
+// (e.g. summary then flashcards) never overwrite each other.
+export const updateStoredContent = async (
+  id: string,
+  updates: Partial<StudyContent>
+): Promise<StudyContent | null> => {
+  const db = await openContentDatabase()
+  const transaction = db.transaction(CONTENT_STORE, 'readwrite')
+  const store = transaction.objectStore(CONTENT_STORE)
+  const existing = await requestToPromise<StudyContent | undefined>(store.get(id))
+
+  if (!existing) {
+    await transactionDone(transaction)
+    return null
+  }
+
+  const updated = { ...existing, ...updates, id }
+  store.put(updated)
+  await transactionDone(transaction)
+  return reviveContent(updated)
+}
+
+export const deleteStoredContent = async (id: string): Promise<void> => {
+  const db = await openContentDatabase()
+  const transaction = db.transaction([CONTENT_STORE, EMBEDDING_STORE], 'readwrite')
+  transaction.objectStore(CONTENT_STORE).delete(id)
+  transaction.objectStore(EMBEDDING_STORE).delete(id)
+  await transactionDone(transaction)
+}
+
+export const loadEmbeddingIndex = async (contentId: string): Promise<EmbeddingIndex | null> => {
+  const db = await openContentDatabase()
+  const transaction = db.transaction(EMBEDDING_STORE, 'readonly')
+  const index = await requestToPromise<EmbeddingIndex | undefined>(
+    transaction.objectStore(EMBEDDING_STORE).get(contentId)
+  )
+  return index ? { ...index, updatedAt: toDate(index.updatedAt) ?? new Date() } : null
+}
+
+export const saveEmbeddingIndex = async (index: EmbeddingIndex): Promise<void> => {
+  const db = await openContentDatabase()
+  const transaction = db.transaction(EMBEDDING_STORE, 'readwrite')
+  transaction.objectStore(EMBEDDING_STORE).put(index)
+  await transactionDone(transaction)
+}
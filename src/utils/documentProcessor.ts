@@ -0,0 +1,479 @@
+import { unzipSync, strFromU8 } from 'fflate'
+
+// Reads Word (.docx) and OpenDocument (.odt) text documents on the main
+// thread. Both are zipped XML; headings, lists and tables are written out as
+// Markdown so the structure survives in the plain text.
+
+export type DocumentFormat = 'docx' | 'odt'
+
+export interface DocumentProcessingOptions {
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+  maxFileSize?: number
+}
+
+export interface DocumentProcessingResult {
+  text: string
+  format: DocumentFormat
+  title?: string
+}
+
+export class DocumentProcessingError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'DocumentProcessingError'
+  }
+}
+
+const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
+
+const ODT_MIME_TYPE = 'application/vnd.oasis.opendocument.text'
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+// Encrypted OOXML files (and legacy .doc) are OLE compound files, not zips
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0]
+
+// Only the XML parts are read - skip inflating embedded media
+const READ_ENTRIES = /\.xml$|^mimetype$/
+
+const parseXML = (source: string): Document => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new DocumentProcessingError('Document contains malformed XML', 'CORRUPT_FILE')
+  }
+  return doc
+}
+
+// Namespace-agnostic lookups - the prefixes differ between producers
+const findElements = (root: Document | Element, localName: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', localName))
+
+const findElement = (root: Document | Element, localName: string): Element | undefined =>
+  findElements(root, localName)[0]
+
+const findChild = (parent: Element | undefined, localName: string): Element | undefined =>
+  parent ? Array.from(parent.children).find(child => child.localName === localName) : undefined
+
+// Reads an attribute by local name, whatever its namespace prefix
+const getAttribute = (element: Element | undefined, localName: string): string | undefined => {
+  const attribute = element && Array.from(element.attributes).find(attr => attr.localName === localName)
+  return attribute?.value
+}
+
+const normalizeWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim()
+
+const formatHeading = (text: string, level: number): string =>
+  `${'#'.repeat(Math.min(Math.max(level, 1), 6))} ${text}`
+
+const formatListItem = (text: string, depth: number, marker: string): string =>
+  `${'  '.repeat(depth)}${marker} ${text}`
+
+const formatTable = (rows: string[][]): string => {
+  const width = Math.max(...rows.map(row => row.length))
+  const formatRow = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => (row[index] || '').replace(/\|/g, '\\|')).join(' | ')} |`
+  return [
+    formatRow(rows[0]),
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...rows.slice(1).map(formatRow)
+  ].join('\n')
+}
+
+// Joins blocks into paragraphs, keeping consecutive list items together
+const joinBlocks = (blocks: { text: string; listItem?: boolean }[]): string =>
+  blocks
+    .map((block, index) => {
+      const previous = blocks[index - 1]
+      const separator = index === 0 ? '' : block.listItem && previous?.listItem ? '\n' : '\n\n'
+      return separator + block.text
+    })
+    .join('')
+
+// --- DOCX ---
+
+interface DocxStyles {
+  // styleId -> heading level
+  headings: Map<string, number>
+  // numId -> list levels that are ordered
+  orderedLevels: Map<string, Set<number>>
+}
+
+const readDocxStyles = (stylesXML?: string, numberingXML?: string): DocxStyles => {
+  const headings = new Map<string, number>()
+  if (stylesXML) {
+    for (const style of findElements(parseXML(stylesXML), 'style')) {
+      const id = getAttribute(style, 'styleId')
+      const name = getAttribute(findChild(style, 'name'), 'val')?.toLowerCase() || ''
+      const outlineLevel = getAttribute(findElement(style, 'outlineLvl'), 'val')
+      const heading = name.match(/^heading (\d)$/)
+      const level = name === 'title' ? 1 : heading ? Number(heading[1]) : outlineLevel ? Number(outlineLevel) + 1 : undefined
+      if (id && level && level <= 9) headings.set(id, level)
+    }
+  }
+
+  const orderedLevels = new Map<string, Set<number>>()
+  if (numberingXML) {
+    const numbering = parseXML(numberingXML)
+    const abstractOrdered = new Map<string, Set<number>>()
+    for (const abstract of findElements(numbering, 'abstractNum')) {
+      const levels = new Set<number>()
+      for (const level of findElements(abstract, 'lvl')) {
+        const format = getAttribute(findChild(level, 'numFmt'), 'val')
+        if (format && format !== 'bullet' && format !== 'none') {
+          levels.add(Number(getAttribute(level, 'ilvl')))
+        }
+      }
+      abstractOrdered.set(getAttribute(abstract, 'abstractNumId') || '', levels)
+    }
+    for (const num of findElements(numbering, 'num')) {
+      const abstractId = getAttribute(findChild(num, 'abstractNumId'), 'val') || ''
+      orderedLevels.set(getAttribute(num, 'numId') || '', abstractOrdered.get(abstractId) || new Set())
+    }
+  }
+
+  return { headings, orderedLevels }
+}
+
+const getDocxRunText = (paragraph: Element): string => {
+  let text = ''
+  const walk = (element: Element) => {
+    for (const child of Array.from(element.children)) {
+      switch (child.localName) {
+        case 't':
+          text += child.textContent || ''
+          break
+        case 'tab':
+          text += '\t'
+          break
+        case 'br':
+        case 'cr':
+          text += ' '
+          break
+        // Deleted revisions, field codes and paragraph properties hold no visible text
+        case 'del':
+        case 'instrText':
+        case 'pPr':
+        case 'rPr':
+          break
+        default:
+          walk(child)
+      }
+    }
+  }
+  walk(paragraph)
+  return normalizeWhitespace(text)
+}
+
+const convertDocxBody = (body: Element, styles: DocxStyles): string => {
+  const blocks: { text: string; listItem?: boolean }[] = []
+  // numId -> running counter per list level
+  const counters = new Map<string, number[]>()
+
+  const convertParagraph = (paragraph: Element) => {
+    const text = getDocxRunText(paragraph)
+    if (!text) return
+
+    const properties = findChild(paragraph, 'pPr')
+    const styleId = getAttribute(findChild(properties, 'pStyle'), 'val')
+    const outlineLevel = getAttribute(findChild(properties, 'outlineLvl'), 'val')
+    const headingLevel = (styleId && styles.headings.get(styleId)) || (outlineLevel ? Number(outlineLevel) + 1 : undefined)
+    if (headingLevel && headingLevel <= 9) {
+      blocks.push({ text: formatHeading(text, headingLevel) })
+      return
+    }
+
+    const numbering = findChild(properties, 'numPr')
+    const numId = getAttribute(findChild(numbering, 'numId'), 'val')
+    if (numId && numId !== '0') {
+      const depth = Number(getAttribute(findChild(numbering, 'ilvl'), 'val') || 0)
+      const levels = counters.get(numId) || []
+      // Starting a level again restarts every level below it
+      levels.length = depth + 1
+      levels[depth] = (levels[depth] || 0) + 1
+      counters.set(numId, levels)
+      const marker = styles.orderedLevels.get(numId)?.has(depth) ? `${levels[depth]}.` : '-'
+      blocks.push({ text: formatListItem(text, depth, marker), listItem: true })
+      return
+    }
+
+    blocks.push({ text })
+  }
+
+  const convertTable = (table: Element) => {
+    const rows = Array.from(table.children)
+      .filter(child => child.localName === 'tr')
+      .map(row => Array.from(row.children)
+        .filter(cell => cell.localName === 'tc')
+        .map(cell => findElements(cell, 'p').map(getDocxRunText).filter(Boolean).join(' ')))
+      .filter(row => row.some(Boolean))
+    if (rows.length > 0) blocks.push({ text: formatTable(rows) })
+  }
+
+  const convertChildren = (parent: Element) => {
+    for (const child of Array.from(parent.children)) {
+      switch (child.localName) {
+        case 'p':
+          convertParagraph(child)
+          break
+        case 'tbl':
+          convertTable(child)
+          break
+        // Content controls and custom XML wrap ordinary paragraphs
+        case 'sdt':
+          convertChildren(findChild(child, 'sdtContent') || child)
+          break
+        case 'customXml':
+          convertChildren(child)
+          break
+      }
+    }
+  }
+
+  convertChildren(body)
+  return joinBlocks(blocks)
+}
+
+const processDocx = (files: Record<string, Uint8Array>): DocumentProcessingResult => {
+  const documentXML = files['word/document.xml']
+  if (!documentXML) {
+    throw new DocumentProcessingError('word/document.xml not found', 'UNSUPPORTED_FORMAT')
+  }
+
+  const read = (path: string) => files[path] ? strFromU8(files[path]) : undefined
+  const styles = readDocxStyles(read('word/styles.xml'), read('word/numbering.xml'))
+  const body = findElement(parseXML(strFromU8(documentXML)), 'body')
+  const core = read('docProps/core.xml')
+
+  return {
+    text: body ? convertDocxBody(body, styles) : '',
+    format: 'docx',
+    title: core ? normalizeWhitespace(findElement(parseXML(core), 'title')?.textContent || '') || undefined : undefined
+  }
+}
+
+// --- ODT ---
+
+const getOdtText = (element: Element): string => {
+  let text = ''
+  const walk = (node: Element) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        text += child.textContent || ''
+        return
+      }
+      if (child.nodeType !== Node.ELEMENT_NODE) return
+
+      const childElement = child as Element
+      switch (childElement.localName) {
+        case 's':
+          text += ' '.repeat(Number(getAttribute(childElement, 'c') || 1))
+          break
+        case 'tab':
+          text += '\t'
+          break
+        case 'line-break':
+          text += ' '
+          break
+        // Footnotes and annotations would interrupt the sentence they belong to
+        case 'note':
+        case 'annotation':
+          break
+        default:
+          walk(childElement)
+      }
+    })
+  }
+  walk(element)
+  return normalizeWhitespace(text)
+}
+
+// list style name -> list levels (0-based) that are numbered
+const readOdtListStyles = (docs: Document[]): Map<string, Set<number>> => {
+  const listStyles = new Map<string, Set<number>>()
+  for (const doc of docs) {
+    for (const style of findElements(doc, 'list-style')) {
+      const levels = new Set<number>()
+      for (const level of Array.from(style.children)) {
+        if (level.localName === 'list-level-style-number') {
+          levels.add(Number(getAttribute(level, 'level') || 1) - 1)
+        }
+      }
+      listStyles.set(getAttribute(style, 'name') || '', levels)
+    }
+  }
+  return listStyles
+}
+
+const convertOdtBody = (body: Element, listStyles: Map<string, Set<number>>): string => {
+  const blocks: { text: string; listItem?: boolean }[] = []
+
+  const convertList = (list: Element, depth: number, inheritedStyle?: string) => {
+    // Nested lists usually take their numbering from the outermost list
+    const styleName = getAttribute(list, 'style-name') || inheritedStyle
+    const ordered = styleName ? listStyles.get(styleName)?.has(depth) : false
+    let counter = 0
+
+    for (const item of Array.from(list.children)) {
+      if (item.localName !== 'list-item' && item.localName !== 'list-header') continue
+      counter++
+      for (const child of Array.from(item.children)) {
+        if (child.localName === 'list') {
+          convertList(child, depth + 1, styleName)
+        } else if (child.localName === 'p' || child.localName === 'h') {
+          const text = getOdtText(child)
+          if (text) {
+            blocks.push({ text: formatListItem(text, depth, ordered ? `${counter}.` : '-'), listItem: true })
+          }
+        }
+      }
+    }
+  }
+
+  const convertTable = (table: Element) => {
+    const rows = findElements(table, 'table-row')
+      .map(row => Array.from(row.children)
+        .filter(cell => cell.localName === 'table-cell')
+        .map(cell => Array.from(cell.children).map(getOdtText).filter(Boolean).join(' ')))
+      .filter(row => row.some(Boolean))
+    if (rows.length > 0) blocks.push({ text: formatTable(rows) })
+  }
+
+  const convertChildren = (parent: Element) => {
+    for (const child of Array.from(parent.children)) {
+      switch (child.localName) {
+        case 'h': {
+          const text = getOdtText(child)
+          if (text) blocks.push({ text: formatHeading(text, Number(getAttribute(child, 'outline-level') || 1)) })
+          break
+        }
+        case 'p': {
+          const text = getOdtText(child)
+          if (text) blocks.push({ text })
+          break
+        }
+        case 'list':
+          convertList(child, 0)
+          break
+        case 'table':
+          convertTable(child)
+          break
+        case 'section':
+          convertChildren(child)
+          break
+      }
+    }
+  }
+
+  convertChildren(body)
+  return joinBlocks(blocks)
+}
+
+const processOdt = (files: Record<string, Uint8Array>): DocumentProcessingResult => {
+  const mimetype = files['mimetype'] ? strFromU8(files['mimetype']).trim() : ODT_MIME_TYPE
+  if (mimetype !== ODT_MIME_TYPE) {
+    // Spreadsheets and presentations share the container format
+    throw new DocumentProcessingError(`Unsupported OpenDocument type: ${mimetype}`, 'UNSUPPORTED_FORMAT')
+  }
+  if (!files['content.xml']) {
+    throw new DocumentProcessingError('content.xml not found', 'UNSUPPORTED_FORMAT')
+  }
+
+  const content = parseXML(strFromU8(files['content.xml']))
+  const styles = files['styles.xml'] ? parseXML(strFromU8(files['styles.xml'])) : undefined
+  const listStyles = readOdtListStyles(styles ? [styles, content] : [content])
+  const body = findChild(findElement(content, 'body'), 'text')
+  const meta = files['meta.xml'] ? parseXML(strFromU8(files['meta.xml'])) : undefined
+
+  return {
+    text: body ? convertOdtBody(body, listStyles) : '',
+    format: 'odt',
+    title: meta ? normalizeWhitespace(findElement(meta, 'title')?.textContent || '') || undefined : undefined
+  }
+}
+
+export const getDocumentFormat = (file: File): DocumentFormat | null => {
+  const name = file.name.toLowerCase()
+  if (file.type === DOCX_MIME_TYPE || name.endsWith('.docx')) return 'docx'
+  if (file.type === ODT_MIME_TYPE || name.endsWith('.odt')) return 'odt'
+  return null
+}
+
+export const validateDocumentFile = (
+  file: File,
+  maxFileSize = DEFAULT_MAX_FILE_SIZE
+): { valid: boolean; error?: string } => {
+  if (!file) {
+    return { valid: false, error: 'No file provided' }
+  }
+
+  if (!getDocumentFormat(file)) {
+    return { valid: false, error: 'File must be a Word (.docx) or OpenDocument (.odt) document' }
+  }
+
+  if (file.size > maxFileSize) {
+    return { valid: false, error: `File size must be less than ${Math.round(maxFileSize / 1024 / 1024)}MB` }
+  }
+
+  if (file.size === 0) {
+    return { valid: false, error: 'File appears to be empty' }
+  }
+
+  return { valid: true }
+}
+
+export const processDocumentFile = async (
+  file: File,
+  options: DocumentProcessingOptions = {}
+): Promise<DocumentProcessingResult> => {
+  const { onProgress, signal, maxFileSize = DEFAULT_MAX_FILE_SIZE } = options
+
+  const validation = validateDocumentFile(file, maxFileSize)
+  if (!validation.valid) {
+    throw new DocumentProcessingError(validation.error || 'Invalid document', 'INVALID_FILE')
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer())
+  if (signal?.aborted) {
+    throw new DocumentProcessingError('Document import was cancelled', 'CANCELLED')
+  }
+  if (OLE_SIGNATURE.every((byte, index) => data[index] === byte)) {
+    throw new DocumentProcessingError('Document is encrypted or in a legacy format', 'PASSWORD_PROTECTED')
+  }
+  onProgress?.(20)
+
+  let files: Record<string, Uint8Array>
+  try {
+    files = unzipSync(data, { filter: entry => READ_ENTRIES.test(entry.name) })
+  } catch (error) {
+    console.error('Failed to unzip document:', error)
+    throw new DocumentProcessingError('Document is not a valid archive', 'CORRUPT_FILE')
+  }
+  onProgress?.(50)
+
+  const result = getDocumentFormat(file) === 'docx' ? processDocx(files) : processOdt(files)
+  onProgress?.(100)
+
+  if (!result.text.trim()) {
+    throw new DocumentProcessingError('No text content found in document', 'NO_TEXT')
+  }
+  return result
+}
+
+export const getDocumentErrorMessage = (error: DocumentProcessingError): string => {
+  switch (error.code) {
+    case 'INVALID_FILE':
+      return error.message
+    case 'CORRUPT_FILE':
+      return 'The document is corrupted or not a valid Word/OpenDocument file.'
+    case 'UNSUPPORTED_FORMAT':
+      return 'This file type is not supported. Please save it as a Word (.docx) or OpenDocument text (.odt) document.'
+    case 'PASSWORD_PROTECTED':
+      return 'This document is password protected or uses the old .doc format. Please save an unprotected .docx copy.'
+    case 'NO_TEXT':
+      return 'No readable text was found in this document.'
+    case 'CANCELLED':
+      return 'Document import cancelled'
+    default:
+      return 'Failed to process document. Please try again with a different file.'
+  }
+}
@@ -0,0 +1,113 @@
+import { ContentChunk, EmbeddedChunk, EmbeddingIndex } from '../types/content'
+import { chunkContent, ChunkSource } from './chunking'
+import { RetrievedChunk } from './retrieval'
+import { loadEmbeddingIndex, saveEmbeddingIndex } from './contentStorage'
+
+export interface IndexingProgress {
+  completed: number
+  total: number
+}
+
+export interface UpdateIndexOptions {
+  model: string
+  embed: (texts: string[], signal?: AbortSignal) => Promise<number[][]>
+  onProgress?: (progress: IndexingProgress) => void
+  signal?: AbortSignal
+}
+
+// Embedding requests are sent in small batches so progress stays responsive
+const EMBED_BATCH_SIZE = 8
+
+// FNV-1a - only needs to tell edited passages apart, not resist collisions
+export const hashText = (text: string): string => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+export const isIndexCurrent = (index: EmbeddingIndex | null, content: ChunkSource, model: string): boolean => {
+  if (!index || index.model !== model) return false
+  const chunks = chunkContent(content)
+  return chunks.length === index.chunks.length &&
+    chunks.every((chunk, i) => index.chunks[i].hash === hashText(chunk.text))
+}
+
+// Re-embeds only the chunks whose text changed since the previous index.
+// Switching embedding models invalidates everything, as vectors are not comparable.
+export const updateEmbeddingIndex = async (
+  content: ChunkSource,
+  previous: EmbeddingIndex | null,
+  options: UpdateIndexOptions
+): Promise<EmbeddingIndex> => {
+  const { model, embed, onProgress, signal } = options
+  const reusable = new Map<string, number[]>()
+  if (previous?.model === model) {
+    for (const chunk of previous.chunks) {
+      reusable.set(chunk.hash, chunk.embedding)
+    }
+  }
+
+  const chunks = chunkContent(content).map(chunk => ({ ...chunk, hash: hashText(chunk.text) }))
+  const missing = chunks.filter(chunk => !reusable.has(chunk.hash))
+
+  onProgress?.({ completed: 0, total: missing.length })
+  for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBED_BATCH_SIZE)
+    const embeddings = await embed(batch.map(chunk => chunk.text), signal)
+    batch.forEach((chunk, j) => reusable.set(chunk.hash, embeddings[j]))
+    onProgress?.({ completed: Math.min(i + EMBED_BATCH_SIZE, missing.length), total: missing.length })
+  }
+
+  const embedded: EmbeddedChunk[] = chunks.map(chunk => ({
+    ...chunk,
+    embedding: reusable.get(chunk.hash)!
+  }))
+
+  return {
+    contentId: content.id,
+    model,
+    chunks: embedded,
+    updatedAt: new Date()
+  }
+}
+
+// Brings the stored index of a content item up to date and saves it
+export const syncEmbeddingIndex = async (
+  content: ChunkSource,
+  options: UpdateIndexOptions
+): Promise<EmbeddingIndex> => {
+  const stored = await loadEmbeddingIndex(content.id)
+  if (stored && isIndexCurrent(stored, content, options.model)) return stored
+
+  const updated = await updateEmbeddingIndex(content, stored, options)
+  await saveEmbeddingIndex(updated)
+  return updated
+}
+
+export const searchEmbeddingIndex = (
+  index: EmbeddingIndex,
+  queryEmbedding: number[],
+  limit = 4
+): RetrievedChunk[] =>
+  index.chunks
+    .map(({ embedding, hash: _hash, ...chunk }) => ({
+      chunk: chunk as ContentChunk,
+      score: cosineSimilarity(queryEmbedding, embedding)
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
@@ -0,0 +1,341 @@
+import { unzipSync, strFromU8 } from 'fflate'
+import { Chapter, ContentPage } from '../types/content'
+import { buildChapterTree, OutlineEntry } from './chapters'
+
+// Reads EPUB 2 and 3 packages on the main thread - DOMParser is not
+// available in workers. Each spine document becomes one "page" of the
+// content, so chapters, citations and retrieval work as they do for PDFs.
+
+export interface EPUBProcessingOptions {
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+  maxFileSize?: number
+}
+
+export interface EPUBProcessingResult {
+  text: string
+  // One per spine document with text, numbered in reading order
+  pages: ContentPage[]
+  chapters: Chapter[]
+  title?: string
+}
+
+export class EPUBProcessingError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'EPUBProcessingError'
+  }
+}
+
+const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
+
+// Images and fonts are never read - skip inflating them
+const SKIPPED_ENTRIES = /\.(png|jpe?g|gif|svg|webp|bmp|ttf|otf|woff2?|mp3|mp4|m4a)$/i
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'aside', 'blockquote', 'pre', 'li', 'dt', 'dd',
+  'figcaption', 'tr', 'table', 'ul', 'ol', 'dl', 'header', 'footer', 'hr', 'br'
+])
+
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'head', 'svg', 'math', 'img'])
+
+interface ManifestItem {
+  href: string
+  mediaType: string
+  properties: string[]
+}
+
+const parseXML = (source: string, type: DOMParserSupportedType = 'application/xml'): Document => {
+  const doc = new DOMParser().parseFromString(source, type)
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    // Plenty of EPUBs ship XHTML that is not well-formed XML
+    if (type === 'application/xhtml+xml') return parseXML(source, 'text/html')
+    throw new EPUBProcessingError('EPUB package contains malformed XML', 'INVALID_EPUB')
+  }
+  return doc
+}
+
+// Namespace-agnostic lookups - OPF and NCX documents mix default and prefixed namespaces
+const findElements = (root: Document | Element, localName: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', localName))
+
+const findElement = (root: Document | Element, localName: string): Element | undefined =>
+  findElements(root, localName)[0]
+
+// Resolves an href against the directory of the document it appears in,
+// dropping the fragment - chapters are tracked per spine document
+const resolvePath = (baseDir: string, href: string): string => {
+  const path = decodeURIComponent(href.split('#')[0])
+  const parts = (baseDir + path).split('/')
+  const resolved: string[] = []
+  for (const part of parts) {
+    if (part === '..') resolved.pop()
+    else if (part && part !== '.') resolved.push(part)
+  }
+  return resolved.join('/')
+}
+
+const getDirectory = (path: string): string => path.slice(0, path.lastIndexOf('/') + 1)
+
+const normalizeWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim()
+
+// Converts an XHTML document to paragraphs, keeping headings as Markdown
+// "#" lines so the structure survives in the plain text
+export const xhtmlToText = (doc: Document): string => {
+  const blocks: string[] = []
+  let inline = ''
+
+  const flush = () => {
+    const text = normalizeWhitespace(inline)
+    if (text) blocks.push(text)
+    inline = ''
+  }
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += node.textContent || ''
+      return
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return
+
+    const name = (node as Element).localName.toLowerCase()
+    if (SKIPPED_ELEMENTS.has(name)) return
+
+    const heading = name.match(/^h([1-6])$/)
+    if (heading) {
+      flush()
+      const text = normalizeWhitespace(node.textContent || '')
+      if (text) blocks.push(`${'#'.repeat(Number(heading[1]))} ${text}`)
+      return
+    }
+
+    const isBlock = BLOCK_ELEMENTS.has(name)
+    if (isBlock) flush()
+    node.childNodes.forEach(walk)
+    if (isBlock) flush()
+  }
+
+  walk(doc.body || doc.documentElement)
+  flush()
+  return blocks.join('\n\n')
+}
+
+const readEntry = (files: Record<string, Uint8Array>, path: string): string | undefined => {
+  const data = files[path]
+  return data ? strFromU8(data) : undefined
+}
+
+const getRootfilePath = (files: Record<string, Uint8Array>): string => {
+  const container = readEntry(files, 'META-INF/container.xml')
+  if (!container) {
+    throw new EPUBProcessingError('Missing META-INF/container.xml', 'INVALID_EPUB')
+  }
+  const path = findElement(parseXML(container), 'rootfile')?.getAttribute('full-path')
+  if (!path || !files[path]) {
+    throw new EPUBProcessingError('EPUB package document not found', 'INVALID_EPUB')
+  }
+  return path
+}
+
+// Anything besides obfuscated fonts in encryption.xml means DRM
+const isDRMProtected = (files: Record<string, Uint8Array>): boolean => {
+  const encryption = readEntry(files, 'META-INF/encryption.xml')
+  if (!encryption) return false
+  return findElements(parseXML(encryption), 'CipherReference')
+    .some(reference => !SKIPPED_ENTRIES.test(reference.getAttribute('URI') || ''))
+}
+
+// EPUB 3 navigation document: nested <ol> lists inside <nav epub:type="toc">
+const parseNavDocument = (doc: Document, baseDir: string, pageOf: (path: string) => number | undefined): OutlineEntry[] => {
+  const nav = findElements(doc, 'nav')
+    .find(element => (element.getAttribute('epub:type') || element.getAttributeNS('http://www.idpf.org/2007/ops', 'type') || '').split(/\s+/).includes('toc'))
+    ?? findElement(doc, 'nav')
+  const list = nav && Array.from(nav.children).find(child => child.localName === 'ol')
+
+  const parseList = (ol: Element): OutlineEntry[] =>
+    Array.from(ol.children)
+      .filter(child => child.localName === 'li')
+      .map(li => {
+        const label = Array.from(li.children).find(child => child.localName === 'a' || child.localName === 'span')
+        const href = label?.getAttribute('href')
+        const nested = Array.from(li.children).find(child => child.localName === 'ol')
+        return {
+          title: normalizeWhitespace(label?.textContent || ''),
+          page: href ? pageOf(resolvePath(baseDir, href)) : undefined,
+          children: nested ? parseList(nested) : []
+        }
+      })
+
+  return list ? parseList(list) : []
+}
+
+// EPUB 2 NCX: nested <navPoint> elements
+const parseNCX = (doc: Document, baseDir: string, pageOf: (path: string) => number | undefined): OutlineEntry[] => {
+  const parsePoints = (parent: Element): OutlineEntry[] =>
+    Array.from(parent.children)
+      .filter(child => child.localName === 'navPoint')
+      .map(point => {
+        const src = findElement(point, 'content')?.getAttribute('src')
+        return {
+          title: normalizeWhitespace(findElement(point, 'text')?.textContent || ''),
+          page: src ? pageOf(resolvePath(baseDir, src)) : undefined,
+          children: parsePoints(point)
+        }
+      })
+
+  const navMap = findElement(doc, 'navMap')
+  return navMap ? parsePoints(navMap) : []
+}
+
+export const validateEPUBFile = (
+  file: File,
+  maxFileSize = DEFAULT_MAX_FILE_SIZE
+): { valid: boolean; error?: string } => {
+  if (!file) {
+    return { valid: false, error: 'No file provided' }
+  }
+
+  if (file.type !== 'application/epub+zip' && !file.name.toLowerCase().endsWith('.epub')) {
+    return { valid: false, error: 'File must be an EPUB' }
+  }
+
+  if (file.size > maxFileSize) {
+    return { valid: false, error: `File size must be less than ${Math.round(maxFileSize / 1024 / 1024)}MB` }
+  }
+
+  if (file.size === 0) {
+    return { valid: false, error: 'File appears to be empty' }
+  }
+
+  return { valid: true }
+}
+
+export const processEPUBFile = async (
+  file: File,
+  options: EPUBProcessingOptions = {}
+): Promise<EPUBProcessingResult> => {
+  const { onProgress, signal, maxFileSize = DEFAULT_MAX_FILE_SIZE } = options
+
+  const validation = validateEPUBFile(file, maxFileSize)
+  if (!validation.valid) {
+    throw new EPUBProcessingError(validation.error || 'Invalid EPUB file', 'INVALID_FILE')
+  }
+
+  const checkCancelled = () => {
+    if (signal?.aborted) {
+      throw new EPUBProcessingError('EPUB import was cancelled', 'CANCELLED')
+    }
+  }
+
+  let files: Record<string, Uint8Array>
+  try {
+    const data = new Uint8Array(await file.arrayBuffer())
+    files = unzipSync(data, { filter: entry => !SKIPPED_ENTRIES.test(entry.name) })
+  } catch (error) {
+    console.error('Failed to unzip EPUB:', error)
+    throw new EPUBProcessingError('EPUB file is not a valid archive', 'INVALID_EPUB')
+  }
+  checkCancelled()
+  onProgress?.(20)
+
+  if (isDRMProtected(files)) {
+    throw new EPUBProcessingError('EPUB is DRM protected', 'DRM_PROTECTED')
+  }
+
+  const packagePath = getRootfilePath(files)
+  const packageDir = getDirectory(packagePath)
+  const opf = parseXML(readEntry(files, packagePath) || '')
+
+  const manifest = new Map<string, ManifestItem>()
+  for (const item of findElements(opf, 'item')) {
+    const id = item.getAttribute('id')
+    const href = item.getAttribute('href')
+    if (!id || !href) continue
+    manifest.set(id, {
+      href: resolvePath(packageDir, href),
+      mediaType: item.getAttribute('media-type') || '',
+      properties: (item.getAttribute('properties') || '').split(/\s+/)
+    })
+  }
+
+  // Non-linear items (footnotes, answer keys) are read after the main text
+  const spineRefs = findElements(opf, 'itemref')
+  const spine = [
+    ...spineRefs.filter(ref => ref.getAttribute('linear') !== 'no'),
+    ...spineRefs.filter(ref => ref.getAttribute('linear') === 'no')
+  ]
+    .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+    .filter((item): item is ManifestItem => !!item && !!files[item.href])
+
+  if (spine.length === 0) {
+    throw new EPUBProcessingError('EPUB has no readable chapters', 'INVALID_EPUB')
+  }
+
+  const pages: ContentPage[] = []
+  // Spine document path -> page number of the first page at or after it
+  const pageNumbers = new Map<string, number>()
+  for (const [index, item] of spine.entries()) {
+    checkCancelled()
+    pageNumbers.set(item.href, pages.length + 1)
+
+    const text = xhtmlToText(parseXML(readEntry(files, item.href) || '', 'application/xhtml+xml'))
+    if (text) {
+      pages.push({ pageNumber: pages.length + 1, text })
+    }
+    onProgress?.(20 + ((index + 1) / spine.length) * 70)
+  }
+
+  if (pages.length === 0) {
+    throw new EPUBProcessingError('No text content found in EPUB', 'NO_TEXT')
+  }
+
+  // Navigation entries may point at documents that had no text, e.g. a part
+  // title page - those resolve to the page that follows
+  const pageOf = (path: string): number | undefined => {
+    const page = pageNumbers.get(path)
+    return page !== undefined ? Math.min(page, pages.length) : undefined
+  }
+
+  const navItem = [...manifest.values()].find(item => item.properties.includes('nav'))
+  const ncxItem = manifest.get(findElement(opf, 'spine')?.getAttribute('toc') || '')
+    ?? [...manifest.values()].find(item => item.mediaType === 'application/x-dtbncx+xml')
+  let outline: OutlineEntry[] = []
+  try {
+    if (navItem && files[navItem.href]) {
+      const navDoc = parseXML(readEntry(files, navItem.href) || '', 'application/xhtml+xml')
+      outline = parseNavDocument(navDoc, getDirectory(navItem.href), pageOf)
+    }
+    if (outline.length === 0 && ncxItem && files[ncxItem.href]) {
+      outline = parseNCX(parseXML(readEntry(files, ncxItem.href) || ''), getDirectory(ncxItem.href), pageOf)
+    }
+  } catch (error) {
+    // The text is still usable without a table of contents
+    console.warn('Failed to read EPUB navigation:', error)
+  }
+
+  onProgress?.(100)
+
+  return {
+    text: pages.map(page => page.text).join('\n\n'),
+    pages,
+    chapters: buildChapterTree(outline, pages.length),
+    title: normalizeWhitespace(findElement(opf, 'title')?.textContent || '') || undefined
+  }
+}
+
+export const getEPUBErrorMessage = (error: EPUBProcessingError): string => {
+  switch (error.code) {
+    case 'INVALID_FILE':
+      return error.message
+    case 'INVALID_EPUB':
+      return 'The file is not a valid EPUB or is corrupted. Please try a different file.'
+    case 'DRM_PROTECTED':
+      return 'This EPUB is DRM protected and cannot be read. Please use a DRM-free copy.'
+    case 'NO_TEXT':
+      return 'No readable text was found in this EPUB.'
+    case 'CANCELLED':
+      return 'EPUB import cancelled'
+    default:
+      return 'Failed to process EPUB. Please try again with a different file.'
+  }
+}
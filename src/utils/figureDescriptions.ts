@@ -0,0 +1,92 @@
+import { ContentPage } from '../types/content'
+import { PDFFigurePage } from './pdfFigures'
+
+// Asks a vision model to describe the figures on rendered PDF pages and folds
+// the descriptions into the page text, so diagrams and charts make it into
+// summaries, flashcards and quizzes.
+
+// Lets the model skip pages where the detected "figure" is decoration
+const NO_FIGURE = /^\W*none\W*$/i
+
+export interface FigureDescriptionOptions {
+  // Sends the prompt with one base64-encoded image to the vision model
+  describe: (prompt: string, image: string) => Promise<string>
+  // 0-100
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+}
+
+export interface FigureDescriptionResult {
+  text: string
+  pages: ContentPage[]
+  describedCount: number
+  // Why describing stopped early; pages described before it keep their description
+  error?: string
+}
+
+const buildPrompt = (pageNumber: number) => `This is page ${pageNumber} of a document a student is studying.
+Describe the figures on it - diagrams, charts, graphs, photos or illustrations - so the student can learn from the description alone.
+Explain what each figure shows: labels, axes, values, trends and how the parts relate. Include figure captions.
+Do not repeat the body text of the page. Answer in at most 150 words.
+If the page has no figure with meaningful content (only text, logos or decoration), answer with exactly: NONE`
+
+// Ollama takes images as plain base64, without the data URL prefix
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+
+export const describeFigures = async (
+  pages: ContentPage[],
+  figures: PDFFigurePage[],
+  options: FigureDescriptionOptions
+): Promise<FigureDescriptionResult> => {
+  const { describe, onProgress, signal } = options
+  const descriptions = new Map<number, string>()
+  let error: string | undefined
+
+  for (const [index, figure] of figures.entries()) {
+    if (signal?.aborted) {
+      throw new DOMException('Figure description was cancelled.', 'AbortError')
+    }
+
+    try {
+      const description = (await describe(buildPrompt(figure.pageNumber), await blobToBase64(figure.image))).trim()
+      if (description && !NO_FIGURE.test(description)) {
+        descriptions.set(figure.pageNumber, description)
+      }
+    } catch (describeError) {
+      if (signal?.aborted) throw describeError
+      // The model is missing or Ollama is down - later pages would fail the same way
+      console.warn(`Failed to describe figures on page ${figure.pageNumber}:`, describeError)
+      error = describeError instanceof Error ? describeError.message : String(describeError)
+      break
+    }
+
+    onProgress?.(((index + 1) / figures.length) * 100)
+  }
+
+  const describedPages = pages
+    .map(page => {
+      const description = descriptions.get(page.pageNumber)
+      if (!description) return page
+      const figureText = `[Figure, page ${page.pageNumber}] ${description}`
+      return {
+        ...page,
+        text: page.text ? `${page.text}\n\n${figureText}` : figureText,
+        figureDescription: description
+      }
+    })
+    // Diagram-only pages are kept for their description - drop them without one
+    .filter(page => page.text)
+
+  return {
+    text: describedPages.map(page => page.text).join('\n\n').trim(),
+    pages: describedPages,
+    describedCount: descriptions.size,
+    error
+  }
+}
@@ -0,0 +1,306 @@
+import { ContentImage, StudyContent } from '../types/content'
+import {
+  processPDFFile,
+  getErrorMessage as getPDFErrorMessage,
+  PDFProcessingError,
+  PasswordRequestReason
+} from './pdfProcessor'
+import {
+  processDocumentFile,
+  getDocumentFormat,
+  getDocumentErrorMessage,
+  DocumentProcessingError
+} from './documentProcessor'
+import { importMarkupFile, getMarkupFormat } from './markdownImport'
+import { describeFigures, FigureDescriptionOptions } from './figureDescriptions'
+import {
+  processImageFile,
+  isImageFile,
+  getImageErrorMessage,
+  ImageProcessingError
+} from './imageProcessor'
+import { processAudioFile, isAudioFile, getAudioErrorMessage, AudioProcessingError } from './audioProcessor'
+import { processEPUBFile, getEPUBErrorMessage, EPUBProcessingError } from './epubProcessor'
+import {
+  parseCaptions,
+  parseCaptionFileName,
+  segmentsToText,
+  getCaptionErrorMessage,
+  CaptionParseError
+} from './captionParser'
+
+// Turns dropped files into library content, whatever their format. The batch
+// import queue goes through here, as do single PDFs once their pages are picked.
+
+export type ImportedContent = Omit<StudyContent, 'id' | 'createdAt'>
+
+// Failures of formats without their own processor, e.g. Markdown and HTML
+export class FileImportError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'FileImportError'
+  }
+}
+
+export type ImportFileKind = 'pdf' | 'epub' | 'document' | 'markup' | 'captions' | 'audio' | 'image'
+
+// Recognized text shown to the user for correction before an image is saved
+export interface ImageTextReview {
+  fileName: string
+  title: string
+  text: string
+  // Average OCR confidence, 0-100
+  confidence: number
+  image: ContentImage
+}
+
+export interface FileImportOptions {
+  // 0-100 for the current file
+  onProgress?: (progress: number) => void
+  onPasswordRequired?: (reason: PasswordRequestReason, signal: AbortSignal) => Promise<string | null>
+  // Resolve with the corrected title and text, or null to discard the image.
+  // Without it, images are saved with the text as recognized. The signal is the
+  // import's, so the review can be closed when the import is cancelled.
+  onReviewImageText?: (review: ImageTextReview, signal?: AbortSignal) => Promise<{ title: string; text: string } | null>
+  // Asks the vision model about a rendered PDF page. Without it, figures aren't described.
+  describeFigure?: FigureDescriptionOptions['describe']
+  // Problems that didn't stop the import, e.g. figures left undescribed
+  onWarning?: (message: string) => void
+  signal?: AbortSignal
+  maxFileSize: number
+  maxPages: number
+  // PDF pages to import, before maxPages is applied - all of them when omitted
+  pageNumbers?: number[]
+  // Password for an encrypted PDF, e.g. one entered while it was inspected
+  password?: string
+}
+
+// react-dropzone "accept" map for every format importFile understands
+export const SUPPORTED_FILE_TYPES: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  'application/epub+zip': ['.epub'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'application/vnd.oasis.opendocument.text': ['.odt'],
+  'text/markdown': ['.md', '.markdown'],
+  'text/html': ['.html', '.htm'],
+  'text/vtt': ['.vtt'],
+  'application/x-subrip': ['.srt'],
+  'application/json': ['.json', '.json3'],
+  'audio/*': ['.mp3', '.wav', '.m4a', '.aac', '.ogg', '.oga', '.opus', '.flac', '.weba'],
+  'video/*': ['.mp4', '.m4v', '.webm', '.mov'],
+  'image/png': ['.png'],
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/webp': ['.webp']
+}
+
+export const getImportFileKind = (file: File): ImportFileKind | null => {
+  const name = file.name.toLowerCase()
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf'
+  if (file.type === 'application/epub+zip' || name.endsWith('.epub')) return 'epub'
+  if (getDocumentFormat(file)) return 'document'
+  if (getMarkupFormat(file)) return 'markup'
+  if (/\.(vtt|srt|json3?)$/.test(name)) return 'captions'
+  if (isAudioFile(file)) return 'audio'
+  if (isImageFile(file)) return 'image'
+  return null
+}
+
+const importPDF = async (file: File, options: FileImportOptions): Promise<ImportedContent> => {
+  const { describeFigure, onProgress } = options
+  // Extraction takes the first 80% when figures are described afterwards
+  const extractionShare = describeFigure ? 0.8 : 1
+  const result = await processPDFFile(file, {
+    onProgress: onProgress && (progress => onProgress(progress * extractionShare)),
+    onPasswordRequired: options.onPasswordRequired,
+    signal: options.signal,
+    maxFileSize: options.maxFileSize,
+    maxPages: options.maxPages,
+    pageNumbers: options.pageNumbers,
+    password: options.password,
+    figures: !!describeFigure
+  })
+
+  if (result.skippedPageCount > 0) {
+    options.onWarning?.(`${result.skippedPageCount} pages were skipped because of the ${options.maxPages}-page limit. You can raise it in Settings.`)
+  }
+
+  let text = result.text
+  let pages = result.pages
+  if (describeFigure && result.figures.length > 0) {
+    const described = await describeFigures(pages, result.figures, {
+      describe: describeFigure,
+      onProgress: onProgress && (progress => onProgress(80 + progress * 0.2)),
+      signal: options.signal
+    })
+    text = described.text
+    pages = described.pages
+    if (described.error) {
+      options.onWarning?.(`Figures were not described: ${described.error}`)
+    }
+  }
+
+  return {
+    title: result.title || file.name.replace('.pdf', ''),
+    type: 'pdf',
+    content: text,
+    pages,
+    chapters: result.chapters.length ? result.chapters : undefined
+  }
+}
+
+const importEPUB = async (file: File, options: FileImportOptions): Promise<ImportedContent> => {
+  const result = await processEPUBFile(file, {
+    onProgress: options.onProgress,
+    signal: options.signal,
+    maxFileSize: options.maxFileSize
+  })
+
+  return {
+    title: result.title || file.name.replace(/\.epub$/i, ''),
+    type: 'epub',
+    content: result.text,
+    pages: result.pages,
+    chapters: result.chapters.length ? result.chapters : undefined
+  }
+}
+
+const importDocument = async (file: File, options: FileImportOptions): Promise<ImportedContent> => {
+  const result = await processDocumentFile(file, {
+    onProgress: options.onProgress,
+    signal: options.signal,
+    maxFileSize: options.maxFileSize
+  })
+
+  return {
+    title: result.title || file.name.replace(/\.(docx|odt)$/i, ''),
+    type: result.format,
+    content: result.text
+  }
+}
+
+const importMarkup = async (file: File, options: FileImportOptions): Promise<ImportedContent> => {
+  if (file.size > options.maxFileSize) {
+    throw new FileImportError(`File is too large (max ${Math.round(options.maxFileSize / 1024 / 1024)}MB)`, 'FILE_TOO_LARGE')
+  }
+
+  const { markdown, title } = await importMarkupFile(file)
+  if (!markdown) {
+    throw new FileImportError(`No text content found in ${file.name}`, 'NO_TEXT')
+  }
+
+  return {
+    title: title || file.name.replace(/\.(md|markdown|html?)$/i, ''),
+    type: 'markdown',
+    content: markdown
+  }
+}
+
+// Also used by the YouTube tab, which only has a caption file to import
+export const importCaptions = async (
+  file: File,
+  options: Pick<FileImportOptions, 'onProgress'> = {}
+): Promise<ImportedContent> => {
+  const source = await file.text()
+  options.onProgress?.(50)
+
+  const captions = parseCaptions(file.name, source)
+  const { title, videoId } = parseCaptionFileName(file.name)
+
+  return {
+    title,
+    type: 'youtube',
+    content: captions.text,
+    segments: captions.segments,
+    videoId
+  }
+}
+
+const importAudio = async (file: File, options: FileImportOptions): Promise<ImportedContent> => {
+  const { segments } = await processAudioFile(file, {
+    onProgress: options.onProgress,
+    signal: options.signal,
+    maxFileSize: options.maxFileSize
+  })
+
+  return {
+    title: file.name.replace(/\.[^.]+$/, ''),
+    type: 'audio',
+    content: segmentsToText(segments, { timestamps: true }),
+    segments
+  }
+}
+
+const importImage = async (file: File, options: FileImportOptions): Promise<ImportedContent> => {
+  const result = await processImageFile(file, {
+    onProgress: options.onProgress,
+    signal: options.signal,
+    maxFileSize: options.maxFileSize
+  })
+
+  const title = file.name.replace(/\.[^.]+$/, '')
+  const reviewed = options.onReviewImageText
+    ? await options.onReviewImageText({ fileName: file.name, title, ...result }, options.signal)
+    : { title, text: result.text }
+  if (!reviewed) {
+    throw new ImageProcessingError('Image import was cancelled', 'CANCELLED')
+  }
+  if (!reviewed.text.trim()) {
+    throw new ImageProcessingError('No text content found in image', 'NO_TEXT')
+  }
+
+  return {
+    title: reviewed.title.trim() || title,
+    type: 'image',
+    content: reviewed.text.trim(),
+    image: result.image
+  }
+}
+
+export const importFile = async (file: File, options: FileImportOptions): Promise<ImportedContent> => {
+  switch (getImportFileKind(file)) {
+    case 'pdf':
+      return importPDF(file, options)
+    case 'epub':
+      return importEPUB(file, options)
+    case 'document':
+      return importDocument(file, options)
+    case 'markup':
+      return importMarkup(file, options)
+    case 'captions':
+      return importCaptions(file, options)
+    case 'audio':
+      return importAudio(file, options)
+    case 'image':
+      return importImage(file, options)
+    default:
+      throw new FileImportError(`Unsupported file type: ${file.name}`, 'UNSUPPORTED_TYPE')
+  }
+}
+
+// Cancelled imports (by the user, or a declined password or review) aren't failures
+export const isImportCancelled = (error: unknown): boolean =>
+  error instanceof Error && 'code' in error && ['CANCELLED', 'PASSWORD_CANCELLED'].includes(String(error.code))
+
+const getFileImportErrorMessage = (error: FileImportError): string => {
+  switch (error.code) {
+    case 'FILE_TOO_LARGE':
+      return `${error.message}. You can raise the limit in Settings.`
+    case 'NO_TEXT':
+      return 'No readable text was found in this file.'
+    case 'UNSUPPORTED_TYPE':
+      return 'This file type is not supported.'
+    default:
+      return 'Failed to import file. Please try again.'
+  }
+}
+
+export const getImportErrorMessage = (error: unknown): string => {
+  if (error instanceof FileImportError) return getFileImportErrorMessage(error)
+  if (error instanceof PDFProcessingError) return getPDFErrorMessage(error)
+  if (error instanceof EPUBProcessingError) return getEPUBErrorMessage(error)
+  if (error instanceof DocumentProcessingError) return getDocumentErrorMessage(error)
+  if (error instanceof ImageProcessingError) return getImageErrorMessage(error)
+  if (error instanceof AudioProcessingError) return getAudioErrorMessage(error)
+  if (error instanceof CaptionParseError) return getCaptionErrorMessage(error)
+  return error instanceof Error ? error.message : 'Failed to import file'
+}
@@ -0,0 +1,136 @@
+import { ContentImage } from '../types/content'
+import { createOCRWorker } from './ocr'
+
+// Recognizes text in photos of whiteboards, handouts and slides. OCR runs
+// locally with the bundled Tesseract worker.
+
+const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024 // 50MB
+
+// Phone photos are far larger than Tesseract needs, and recognition time
+// grows with the pixel count
+const MAX_OCR_DIMENSION = 3000
+
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp']
+
+export interface ImageProcessingOptions {
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+  maxFileSize?: number
+}
+
+export interface ImageProcessingResult {
+  text: string
+  // Average word confidence, 0-100
+  confidence: number
+  image: ContentImage
+}
+
+export class ImageProcessingError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'ImageProcessingError'
+  }
+}
+
+export const isImageFile = (file: File): boolean =>
+  IMAGE_MIME_TYPES.includes(file.type) || /\.(png|jpe?g|webp)$/i.test(file.name)
+
+// Draws the photo upright (EXIF orientation applied) and scaled down for OCR
+const prepareImage = async (file: File): Promise<{ canvas: OffscreenCanvas; width: number; height: number }> => {
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' })
+  } catch (error) {
+    console.error('Failed to decode image:', error)
+    throw new ImageProcessingError('Image could not be decoded', 'DECODE_FAILED')
+  }
+
+  const { width, height } = bitmap
+  const scale = Math.min(1, MAX_OCR_DIMENSION / Math.max(width, height))
+  const canvas = new OffscreenCanvas(Math.round(width * scale), Math.round(height * scale))
+  const context = canvas.getContext('2d')
+  if (!context) {
+    bitmap.close()
+    throw new ImageProcessingError('Canvas rendering is not supported in this browser', 'UNAVAILABLE')
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  return { canvas, width, height }
+}
+
+export const processImageFile = async (
+  file: File,
+  options: ImageProcessingOptions = {}
+): Promise<ImageProcessingResult> => {
+  const { onProgress, signal, maxFileSize = DEFAULT_MAX_FILE_SIZE } = options
+
+  if (!isImageFile(file)) {
+    throw new ImageProcessingError('File must be a PNG, JPEG or WebP image', 'INVALID_TYPE')
+  }
+
+  if (file.size > maxFileSize) {
+    throw new ImageProcessingError(`Image is too large (max ${Math.round(maxFileSize / 1024 / 1024)}MB)`, 'FILE_TOO_LARGE')
+  }
+
+  const { canvas, width, height } = await prepareImage(file)
+  onProgress?.(10)
+
+  const worker = await createOCRWorker(message => {
+    if (message.status === 'recognizing text') {
+      onProgress?.(10 + message.progress * 85)
+    }
+  })
+  // Terminating tesseract leaves a running recognize() pending forever, so a
+  // cancelled import stops waiting for it instead
+  let cancel = () => {}
+  const cancelled = new Promise<never>((_, reject) => {
+    cancel = () => reject(new ImageProcessingError('Image import was cancelled', 'CANCELLED'))
+  })
+  signal?.addEventListener('abort', cancel)
+
+  try {
+    // Cancelled while the worker was loading
+    if (signal?.aborted) {
+      throw new ImageProcessingError('Image import was cancelled', 'CANCELLED')
+    }
+
+    const { data } = await Promise.race([worker.recognize(canvas), cancelled])
+    onProgress?.(100)
+
+    const text = data.text
+      .split(/\n{2,}/)
+      .map(paragraph => paragraph.replace(/\s*\n\s*/g, '\n').trim())
+      .filter(Boolean)
+      .join('\n\n')
+
+    return { text, confidence: data.confidence, image: { blob: file, width, height } }
+  } catch (error) {
+    if (error instanceof ImageProcessingError) throw error
+    throw new ImageProcessingError(error instanceof Error ? error.message : String(error), 'OCR_FAILED')
+  } finally {
+    signal?.removeEventListener('abort', cancel)
+    canvas.width = 0
+    canvas.height = 0
+    await worker.terminate()
+  }
+}
+
+export const getImageErrorMessage = (error: ImageProcessingError): string => {
+  switch (error.code) {
+    case 'INVALID_TYPE':
+      return 'Please choose a PNG, JPEG or WebP image.'
+    case 'FILE_TOO_LARGE':
+      return `${error.message}. You can raise the limit in Settings.`
+    case 'DECODE_FAILED':
+      return 'This image could not be opened. It may be corrupted.'
+    case 'OCR_FAILED':
+      return `Text recognition failed: ${error.message}`
+    case 'NO_TEXT':
+      return 'No text was recognized in this image.'
+    case 'CANCELLED':
+      return 'Image import cancelled'
+    default:
+      return 'Failed to process image. Please try again.'
+  }
+}
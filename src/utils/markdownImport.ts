@@ -0,0 +1,84 @@
+import TurndownService from 'turndown'
+import { gfm } from 'turndown-plugin-gfm'
+import { StudyContent } from '../types/content'
+
+// Markdown and saved HTML pages are stored as Markdown, so headings, code
+// blocks, lists and tables survive and the dashboard can render them
+
+export type MarkupFormat = 'markdown' | 'html'
+
+export interface MarkupImportResult {
+  markdown: string
+  title?: string
+}
+
+// Content types whose text is Markdown (or Markdown-style headings from the
+// EPUB and Word converters) and is rendered as such
+const MARKDOWN_CONTENT_TYPES: StudyContent['type'][] = ['markdown', 'epub', 'docx', 'odt']
+
+// Site chrome around the article in saved web pages
+const HTML_CHROME_SELECTOR = 'script, style, noscript, template, iframe, nav, header, footer, aside, form, button, svg'
+
+export const isMarkdownContent = (content: Pick<StudyContent, 'type'>): boolean =>
+  MARKDOWN_CONTENT_TYPES.includes(content.type)
+
+export const getMarkupFormat = (file: File): MarkupFormat | null => {
+  const name = file.name.toLowerCase()
+  if (file.type === 'text/markdown' || /\.(md|markdown)$/.test(name)) return 'markdown'
+  if (file.type === 'text/html' || /\.html?$/.test(name)) return 'html'
+  return null
+}
+
+// Heuristic for pasted text: ATX headings, fenced code or a table header row
+export const looksLikeMarkdown = (text: string): boolean =>
+  /^#{1,6} \S/m.test(text) || /^```/m.test(text) || /^\|.*\|\s*\n\|[\s:|-]+\|/m.test(text)
+
+// Drops YAML front matter, keeping its title if it has one
+const stripFrontMatter = (markdown: string): { body: string; title?: string } => {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/)
+  if (!match) return { body: markdown }
+  const title = match[1].match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1]
+  return { body: markdown.slice(match[0].length), title }
+}
+
+export const getMarkdownTitle = (markdown: string): string | undefined =>
+  markdown.match(/^#{1,2} (.+)$/m)?.[1].replace(/[*_`]/g, '').trim() || undefined
+
+export const parseMarkdown = (source: string): MarkupImportResult => {
+  const { body, title } = stripFrontMatter(source.replace(/^\uFEFF/, ''))
+  const markdown = body.trim()
+  return { markdown, title: title || getMarkdownTitle(markdown) }
+}
+
+export const htmlToMarkdown = (html: string): MarkupImportResult => {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const title = doc.title.trim() || doc.querySelector('h1')?.textContent?.trim() || undefined
+
+  // Prefer the page's main article over the whole body
+  const root = doc.querySelector('main, article, [role="main"]') || doc.body
+  root.querySelectorAll(HTML_CHROME_SELECTOR).forEach(element => element.remove())
+
+  const turndown = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-',
+    emDelimiter: '*'
+  })
+  turndown.use(gfm)
+  // Images can't be shown without the files saved next to the page
+  turndown.addRule('images', {
+    filter: 'img',
+    replacement: (_content, node) => {
+      const alt = (node as HTMLImageElement).getAttribute('alt')?.trim()
+      return alt ? `[Image: ${alt}]` : ''
+    }
+  })
+
+  const markdown = turndown.turndown(root.innerHTML).replace(/\n{3,}/g, '\n\n').trim()
+  return { markdown, title }
+}
+
+export const importMarkupFile = async (file: File): Promise<MarkupImportResult> => {
+  const source = await file.text()
+  return getMarkupFormat(file) === 'html' ? htmlToMarkdown(source) : parseMarkdown(source)
+}
@@ -0,0 +1,38 @@
+// Ollama streams responses as newline-delimited JSON: one object per line,
+// with network chunks that may split a line anywhere.
+export async function* readNDJSON<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      let newlineIndex = buffer.indexOf('\n')
+      while (newlineIndex !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim()
+        buffer = buffer.slice(newlineIndex + 1)
+        if (line) {
+          yield JSON.parse(line) as T
+        }
+        newlineIndex = buffer.indexOf('\n')
+      }
+    }
+
+    buffer += decoder.decode()
+    if (buffer.trim()) {
+      yield JSON.parse(buffer) as T
+    }
+  } finally {
+    // Cancelling releases the underlying connection if the consumer stopped early
+    reader.cancel().catch(() => {})
+  }
+}
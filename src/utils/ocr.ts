@@ -0,0 +1,23 @@
+import { createWorker, OEM, Worker as TesseractWorker, LoggerMessage } from 'tesseract.js'
+import workerUrl from 'tesseract.js/dist/worker.min.js?url'
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url'
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url'
+
+// Tesseract setup shared by scanned-PDF and image OCR. The worker, WASM core
+// and language data are bundled, so OCR works offline like the rest of the
+// app, on the main thread and inside workers alike.
+
+// Tesseract only resolves relative paths on the main thread, and it fetches
+// "<langPath>/eng.traineddata.gz" itself, so it needs the directory the
+// bundled file is served from
+const toAbsoluteUrl = (url: string) => new URL(url, self.location.href).href
+const getDirectory = (url: string) => url.slice(0, url.lastIndexOf('/'))
+
+export const createOCRWorker = (logger?: (message: LoggerMessage) => void): Promise<TesseractWorker> =>
+  createWorker('eng', OEM.LSTM_ONLY, {
+    workerPath: toAbsoluteUrl(workerUrl),
+    corePath: toAbsoluteUrl(coreUrl),
+    langPath: getDirectory(toAbsoluteUrl(englishDataUrl)),
+    workerBlobURL: false,
+    logger
+  })
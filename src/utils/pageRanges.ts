@@ -0,0 +1,39 @@
+// Page selections as typed by the user, e.g. "12-48, 60"
+
+export interface PageRangeParseResult {
+  // Sorted, 1-based and without duplicates
+  pages: number[]
+  error?: string
+}
+
+export const parsePageRanges = (input: string, pageCount: number): PageRangeParseResult => {
+  const parts = input.split(',').map(part => part.trim()).filter(Boolean)
+  if (parts.length === 0) {
+    return { pages: [], error: 'Enter the pages to import, e.g. "1-10, 15"' }
+  }
+
+  const pages = new Set<number>()
+  for (const part of parts) {
+    // Open ranges like "50-" run to the last page
+    const match = part.match(/^(\d+)\s*(?:-\s*(\d*))?$/)
+    if (!match) {
+      return { pages: [], error: `"${part}" is not a page or page range` }
+    }
+
+    const start = Number(match[1])
+    const end = match[2] === undefined ? start : match[2] === '' ? pageCount : Number(match[2])
+    if (start < 1 || end > pageCount) {
+      return { pages: [], error: `"${part}" is outside the document (pages 1-${pageCount})` }
+    }
+    if (start > end) {
+      return { pages: [], error: `"${part}" runs backwards` }
+    }
+
+    for (let page = start; page <= end; page++) {
+      pages.add(page)
+    }
+  }
+
+  return { pages: [...pages].sort((a, b) => a - b) }
+}
+
@@ -0,0 +1,277 @@
+import * as pdfjsLib from 'pdfjs-dist'
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+import { ContentPage } from '../types/content'
+import { buildPageLayout, getBodyFontSize, isBoldFont, PageRuns, TextRun } from './pdfLayout'
+import { buildChapterTree, filterChaptersByPages, OutlineEntry } from './chapters'
+import { recognizePDFPages } from './pdfOcr'
+import { renderFigurePages, PDFFigurePage } from './pdfFigures'
+import { PDFInspection, PDFProcessingError, PDFProcessingResult, PasswordRequestReason } from './pdfProcessor'
+
+// Runs inside the PDF extraction worker (see workers/pdfExtraction.worker.ts):
+// nothing here may touch the DOM
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl
+
+export interface PDFLoadOptions {
+  password?: string
+  onPasswordRequired?: (reason: PasswordRequestReason) => Promise<string | null>
+}
+
+export interface PDFExtractionOptions extends PDFLoadOptions {
+  maxPages: number
+  // 1-based pages to extract, all pages when omitted
+  pageNumbers?: number[]
+  ocr: boolean
+  // Render pages with figures for a vision model to describe, at most this many
+  maxFigurePages: number
+  onProgress: (progress: number) => void
+}
+
+// pdf.js creates its scratch canvases through the DOM by default
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height)
+    return { canvas, context: canvas.getContext('2d') }
+  }
+
+  reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number) {
+    canvasAndContext.canvas.width = width
+    canvasAndContext.canvas.height = height
+  }
+
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0
+      canvasAndContext.canvas.height = 0
+    }
+    canvasAndContext.canvas = null
+    canvasAndContext.context = null
+  }
+}
+
+type PDFOutlineItem = Awaited<ReturnType<pdfjsLib.PDFDocumentProxy['getOutline']>>[number]
+
+// Outline destinations are either named (looked up in the document) or
+// explicit arrays whose first element is a page reference or page index
+const resolveDestinationPage = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  dest: PDFOutlineItem['dest']
+): Promise<number | undefined> => {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest
+    const target = explicit?.[0]
+    if (typeof target === 'number') return target + 1
+    if (target && typeof target === 'object') return (await pdf.getPageIndex(target)) + 1
+  } catch (error) {
+    console.warn('Failed to resolve outline destination:', error)
+  }
+  return undefined
+}
+
+const resolveOutline = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  items: PDFOutlineItem[]
+): Promise<OutlineEntry[]> =>
+  Promise.all(items.map(async item => ({
+    title: item.title,
+    page: item.dest ? await resolveDestinationPage(pdf, item.dest) : undefined,
+    children: await resolveOutline(pdf, item.items || [])
+  })))
+
+// Resolves with the password that opened the document, if one was needed
+const loadDocument = async (
+  data: ArrayBuffer,
+  options: PDFLoadOptions
+): Promise<{ pdf: pdfjsLib.PDFDocumentProxy; password?: string }> => {
+  const { onPasswordRequired } = options
+  let password = options.password
+  const loadingTask = pdfjsLib.getDocument({
+    data,
+    password,
+    CanvasFactory: OffscreenCanvasFactory,
+    // Font faces need document.fonts - draw glyphs as paths instead
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0 // Reduce console output
+  })
+
+  // Without a callback pdf.js rejects with a PasswordException instead
+  let passwordError: PDFProcessingError | null = null
+  if (onPasswordRequired) {
+    loadingTask.onPassword = (updatePassword: (password: string) => void, reason: number) => {
+      onPasswordRequired(reason === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'needed')
+        .then(enteredPassword => {
+          if (enteredPassword === null) {
+            passwordError = new PDFProcessingError('PDF password was not provided', 'PASSWORD_CANCELLED')
+            loadingTask.destroy()
+          } else {
+            password = enteredPassword
+            updatePassword(enteredPassword)
+          }
+        })
+    }
+  }
+
+  try {
+    return { pdf: await loadingTask.promise, password }
+  } catch (error: any) {
+    if (passwordError) {
+      throw passwordError
+    } else if (error.name === 'PasswordException') {
+      throw error.code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD
+        ? new PDFProcessingError('Incorrect PDF password', 'INCORRECT_PASSWORD')
+        : new PDFProcessingError('PDF is password protected', 'PASSWORD_PROTECTED')
+    } else if (error.name === 'InvalidPDFException') {
+      throw new PDFProcessingError('Invalid or corrupted PDF file', 'INVALID_PDF')
+    } else {
+      throw new PDFProcessingError(`Failed to load PDF: ${error.message}`, 'LOAD_ERROR')
+    }
+  }
+}
+
+const extractPageRuns = async (page: pdfjsLib.PDFPageProxy): Promise<PageRuns> => {
+  const textContent = await page.getTextContent({
+    includeMarkedContent: false
+  })
+
+  // page.view is the page box [x1, y1, x2, y2] - make run positions relative to it
+  const [viewX, viewY, viewRight, viewTop] = page.view
+  const runs: TextRun[] = textContent.items
+    .filter((item: any) => item.str && item.str.trim())
+    .map((item: any) => ({
+      text: item.str,
+      x: item.transform[4] - viewX,
+      y: item.transform[5] - viewY,
+      width: item.width,
+      // The transform's vertical scale is the font size in user space
+      fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height,
+      bold: isBoldFont(item.fontName, textContent.styles[item.fontName]?.fontFamily)
+    }))
+
+  return { pageNumber: page.pageNumber, runs, width: viewRight - viewX, height: viewTop - viewY }
+}
+
+// Opens the document only far enough to let the user pick pages
+export const inspectPDF = async (data: ArrayBuffer, options: PDFLoadOptions): Promise<PDFInspection> => {
+  const { pdf, password } = await loadDocument(data, options)
+  try {
+    const metadata = await pdf.getMetadata().catch(() => null)
+    return { pageCount: pdf.numPages, title: metadata?.info?.Title, password }
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+export const extractPDF = async (
+  data: ArrayBuffer,
+  options: PDFExtractionOptions
+): Promise<PDFProcessingResult> => {
+  const { maxPages, pageNumbers, ocr, maxFigurePages, onProgress } = options
+
+  const { pdf } = await loadDocument(data, options)
+
+  try {
+    onProgress(25)
+
+    const allPages = Array.from({ length: pdf.numPages }, (_, index) => index + 1)
+    const requestedPages = pageNumbers?.filter(pageNumber => pageNumber >= 1 && pageNumber <= pdf.numPages) ?? allPages
+    // The limit keeps the first pages of the selection
+    const selectedPages = requestedPages.slice(0, maxPages)
+    const pageRuns: PageRuns[] = []
+    const metadata = await pdf.getMetadata().catch(() => null)
+    const outline = await pdf.getOutline().catch(() => null)
+    const outlineChapters = outline?.length
+      ? buildChapterTree(await resolveOutline(pdf, outline), pdf.numPages)
+      : []
+    const chapters = selectedPages.length < pdf.numPages
+      ? filterChaptersByPages(outlineChapters, new Set(selectedPages))
+      : outlineChapters
+
+    onProgress(30)
+
+    // Extract positioned text runs from each page
+    for (const [index, pageNum] of selectedPages.entries()) {
+      try {
+        const page = await pdf.getPage(pageNum)
+        pageRuns.push(await extractPageRuns(page))
+
+        // Update progress
+        onProgress(30 + (((index + 1) / selectedPages.length) * 30))
+
+        // Clean up page resources
+        page.cleanup()
+      } catch (pageError) {
+        console.warn(`Failed to process page ${pageNum}:`, pageError)
+        // Continue with other pages
+      }
+    }
+
+    // Scanned pages have no text layer - recognize them instead
+    const scannedPages = pageRuns.filter(page => page.runs.length === 0).map(page => page.pageNumber)
+    let ocrPageCount = 0
+    if (ocr && scannedPages.length > 0) {
+      try {
+        const recognized = await recognizePDFPages(pdf, scannedPages, {
+          onProgress: (progress) => onProgress(60 + progress * 30)
+        })
+        for (const page of recognized) {
+          pageRuns[pageRuns.findIndex(candidate => candidate.pageNumber === page.pageNumber)] = page
+        }
+        ocrPageCount = recognized.filter(page => page.runs.length > 0).length
+      } catch (error) {
+        console.warn('OCR failed:', error)
+        // Mixed documents are still usable without their scanned pages
+        if (scannedPages.length === pageRuns.length) {
+          throw new PDFProcessingError(error instanceof Error ? error.message : String(error), 'OCR_FAILED')
+        }
+      }
+    }
+
+    // Scans that OCR could read are text already - only look for figures elsewhere
+    let figures: PDFFigurePage[] = []
+    if (maxFigurePages > 0) {
+      const textPages = pageRuns
+        .filter(page => !scannedPages.includes(page.pageNumber) || page.runs.length === 0)
+        .map(page => page.pageNumber)
+      figures = await renderFigurePages(pdf, textPages, {
+        maxPages: maxFigurePages,
+        onProgress: (progress) => onProgress(90 + progress * 5)
+      })
+    }
+    const figurePageNumbers = new Set(figures.map(figure => figure.pageNumber))
+
+    // Headings are judged against the document's body text size, not each
+    // page's, so title pages and figure-heavy pages are classified consistently
+    const bodyFontSize = getBodyFontSize(pageRuns.flatMap(page => page.runs))
+    const pages: ContentPage[] = pageRuns
+      .map(({ pageNumber, runs, width, height }) => {
+        const layout = buildPageLayout(runs, width, bodyFontSize)
+        return { pageNumber, text: layout.text, blocks: layout.blocks, width, height }
+      })
+      // Pages that are only a diagram get their text from its description
+      .filter(page => page.text || figurePageNumbers.has(page.pageNumber))
+    const fullText = pages.map(page => page.text).join('\n\n')
+
+    onProgress(95)
+
+    if (!fullText.trim()) {
+      throw new PDFProcessingError('No text content found in PDF', 'NO_TEXT')
+    }
+
+    return {
+      text: fullText.trim(),
+      pages,
+      chapters,
+      pageCount: pdf.numPages,
+      importedPageCount: selectedPages.length,
+      skippedPageCount: requestedPages.length - selectedPages.length,
+      ocrPageCount,
+      figures,
+      title: metadata?.info?.Title,
+      metadata: metadata?.info
+    }
+  } finally {
+    // Release the document on failures too
+    await pdf.destroy()
+  }
+}
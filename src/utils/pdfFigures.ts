@@ -0,0 +1,105 @@
+import * as pdfjsLib from 'pdfjs-dist'
+
+// Finds pages with figures (embedded pictures or vector diagrams) and renders
+// them to JPEG so a vision model can describe them. Runs inside the PDF
+// extraction worker, so pages are rendered to an OffscreenCanvas.
+
+// Logos, icons and bullets are smaller than this on either side, in image pixels
+const MIN_FIGURE_IMAGE_SIZE = 150
+// Charts and diagrams drawn as vector graphics are made of many paths; table
+// rules and underlines on a text page stay well below this
+const MIN_FIGURE_PATHS = 100
+// Vision models downscale their input to well below this anyway
+const MAX_RENDER_DIMENSION = 1280
+const JPEG_QUALITY = 0.85
+
+export interface PDFFigurePage {
+  pageNumber: number
+  // The whole page, so the figure is described with its caption and labels
+  image: Blob
+}
+
+export interface FigureRenderOptions {
+  // Most pages to render, in document order
+  maxPages: number
+  // Fraction (0-1) of the pages checked so far
+  onProgress?: (progress: number) => void
+}
+
+const IMAGE_OPS = new Set([
+  pdfjsLib.OPS.paintImageXObject,
+  pdfjsLib.OPS.paintImageXObjectRepeat,
+  pdfjsLib.OPS.paintInlineImageXObject
+])
+
+const hasFigure = async (page: pdfjsLib.PDFPageProxy): Promise<boolean> => {
+  const { fnArray, argsArray } = await page.getOperatorList()
+  let pathCount = 0
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const op = fnArray[i]
+    if (IMAGE_OPS.has(op)) {
+      // XObjects are painted with [objId, width, height], inline images with their data
+      const args = argsArray[i]
+      const [width, height] = op === pdfjsLib.OPS.paintInlineImageXObject
+        ? [args[0]?.width, args[0]?.height]
+        : [args[1], args[2]]
+      if (width >= MIN_FIGURE_IMAGE_SIZE && height >= MIN_FIGURE_IMAGE_SIZE) return true
+    } else if (op === pdfjsLib.OPS.constructPath && ++pathCount >= MIN_FIGURE_PATHS) {
+      return true
+    }
+  }
+  return false
+}
+
+const renderPage = async (page: pdfjsLib.PDFPageProxy): Promise<Blob> => {
+  const baseViewport = page.getViewport({ scale: 1 })
+  const scale = MAX_RENDER_DIMENSION / Math.max(baseViewport.width, baseViewport.height)
+  const viewport = page.getViewport({ scale })
+  const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height))
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas rendering is not supported in this browser')
+  }
+
+  try {
+    // JPEG has no transparency - pages without a background would turn black
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    // pdf.js draws to offscreen contexts just the same, but is typed for DOM canvases only
+    await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise
+    return await canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY })
+  } finally {
+    canvas.width = 0
+    canvas.height = 0
+  }
+}
+
+export const renderFigurePages = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  pageNumbers: number[],
+  options: FigureRenderOptions
+): Promise<PDFFigurePage[]> => {
+  const { maxPages, onProgress } = options
+  const figures: PDFFigurePage[] = []
+
+  for (const [index, pageNumber] of pageNumbers.entries()) {
+    if (figures.length >= maxPages) break
+
+    const page = await pdf.getPage(pageNumber)
+    try {
+      if (await hasFigure(page)) {
+        figures.push({ pageNumber, image: await renderPage(page) })
+      }
+    } catch (error) {
+      // A figure that fails to render is left out, the page text is still there
+      console.warn(`Failed to render figures on page ${pageNumber}:`, error)
+    } finally {
+      page.cleanup()
+    }
+
+    onProgress?.((index + 1) / pageNumbers.length)
+  }
+
+  return figures
+}
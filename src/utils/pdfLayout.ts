@@ -0,0 +1,203 @@
+import { BoundingBox, LayoutBlock } from '../types/content'
+
+// Reconstructs lines, paragraphs, headings and reading order from the
+// positioned text runs pdf.js returns. Coordinates are PDF user space:
+// origin at the bottom-left of the page, y growing upwards.
+
+export interface TextRun {
+  text: string
+  x: number
+  y: number
+  width: number
+  fontSize: number
+  bold: boolean
+}
+
+// The runs of one page, with the page size in user space
+export interface PageRuns {
+  pageNumber: number
+  runs: TextRun[]
+  width: number
+  height: number
+}
+
+interface TextLine {
+  text: string
+  x: number
+  y: number
+  width: number
+  fontSize: number
+  bold: boolean
+  column: number
+}
+
+export interface PageLayout {
+  text: string
+  blocks: LayoutBlock[]
+}
+
+// Lines at least this much larger than the body text are headings
+const HEADING_SIZE_RATIO = 1.15
+// Bold lines at body size count as headings when they are this short
+const BOLD_HEADING_MAX_CHARS = 80
+// Vertical gap, relative to font size, above which a new paragraph starts
+const PARAGRAPH_GAP_RATIO = 1.8
+const MAX_HEADING_LEVEL = 3
+
+const BOLD_FONT_PATTERN = /bold|black|heavy|semibold|demi/i
+
+export const isBoldFont = (fontName: string, fontFamily = ''): boolean =>
+  BOLD_FONT_PATTERN.test(fontName) || BOLD_FONT_PATTERN.test(fontFamily)
+
+// Runs share a line when their baselines are within a fraction of the font size
+const groupIntoLines = (runs: TextRun[]): Omit<TextLine, 'column'>[] => {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x)
+  const lines: TextRun[][] = []
+
+  for (const run of sorted) {
+    const line = lines.find(candidate =>
+      Math.abs(candidate[0].y - run.y) < Math.max(candidate[0].fontSize, run.fontSize) * 0.5
+    )
+    if (line) {
+      line.push(run)
+    } else {
+      lines.push([run])
+    }
+  }
+
+  return lines.map(line => {
+    line.sort((a, b) => a.x - b.x)
+    let text = ''
+    let previousEnd = line[0].x
+    for (const run of line) {
+      // pdf.js drops explicit spaces between runs - restore them from the gap
+      const gap = run.x - previousEnd
+      if (text && gap > run.fontSize * 0.15 && !text.endsWith(' ') && !run.text.startsWith(' ')) {
+        text += ' '
+      }
+      text += run.text
+      previousEnd = run.x + run.width
+    }
+
+    const x = line[0].x
+    const last = line[line.length - 1]
+    const boldChars = line.filter(run => run.bold).reduce((sum, run) => sum + run.text.length, 0)
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      x,
+      y: Math.min(...line.map(run => run.y)),
+      width: last.x + last.width - x,
+      fontSize: Math.max(...line.map(run => run.fontSize)),
+      bold: boldChars > text.length / 2
+    }
+  }).filter(line => line.text)
+}
+
+// Two-column pages are read column by column: a page is treated as two
+// columns when most lines sit entirely on one side of the middle
+const assignColumns = (lines: Omit<TextLine, 'column'>[], pageWidth: number): TextLine[] => {
+  const middle = pageWidth / 2
+  const left = lines.filter(line => line.x + line.width <= middle + pageWidth * 0.02)
+  const right = lines.filter(line => line.x >= middle - pageWidth * 0.02)
+  const isTwoColumn = left.length >= 3 && right.length >= 3 && left.length + right.length >= lines.length * 0.8
+
+  return lines.map(line => ({
+    ...line,
+    column: isTwoColumn && line.x >= middle - pageWidth * 0.02 ? 1 : 0
+  }))
+}
+
+// Most common font size weighted by the amount of text set in it
+export const getBodyFontSize = (lines: { text: string; fontSize: number }[]): number => {
+  const weights = new Map<number, number>()
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2
+    weights.set(size, (weights.get(size) || 0) + line.text.length)
+  }
+  let bodySize = 0
+  let maxWeight = -1
+  for (const [size, weight] of weights) {
+    if (weight > maxWeight) {
+      bodySize = size
+      maxWeight = weight
+    }
+  }
+  return bodySize
+}
+
+const isHeadingLine = (line: TextLine, bodySize: number): boolean =>
+  line.fontSize >= bodySize * HEADING_SIZE_RATIO ||
+  (line.bold && line.text.length <= BOLD_HEADING_MAX_CHARS && !/[.,;:]$/.test(line.text))
+
+// Rejoins words hyphenated across line breaks
+const joinLines = (lines: string[]): string =>
+  lines.reduce((text, line) => {
+    if (!text) return line
+    if (/[a-z]-$/.test(text) && /^[a-z]/.test(line)) return text.slice(0, -1) + line
+    return `${text} ${line}`
+  }, '')
+
+const toBoundingBox = (lines: TextLine[]): BoundingBox => {
+  const x = Math.min(...lines.map(line => line.x))
+  const y = Math.min(...lines.map(line => line.y))
+  const right = Math.max(...lines.map(line => line.x + line.width))
+  const top = Math.max(...lines.map(line => line.y + line.fontSize))
+  return { x, y, width: right - x, height: top - y }
+}
+
+export const buildPageLayout = (runs: TextRun[], pageWidth: number, bodyFontSize?: number): PageLayout => {
+  const lines = assignColumns(groupIntoLines(runs.filter(run => run.text.trim())), pageWidth)
+    .sort((a, b) => a.column - b.column || b.y - a.y || a.x - b.x)
+
+  if (lines.length === 0) {
+    return { text: '', blocks: [] }
+  }
+
+  const bodySize = bodyFontSize || getBodyFontSize(lines)
+
+  // Heading levels follow the distinct heading sizes on the page, largest first
+  const headingSizes = [...new Set(
+    lines.filter(line => isHeadingLine(line, bodySize)).map(line => Math.round(line.fontSize))
+  )].sort((a, b) => b - a)
+
+  const blocks: LayoutBlock[] = []
+  let current: TextLine[] = []
+  let currentIsHeading = false
+
+  const flush = () => {
+    if (current.length === 0) return
+    const fontSize = Math.max(...current.map(line => line.fontSize))
+    blocks.push({
+      type: currentIsHeading ? 'heading' : 'paragraph',
+      text: joinLines(current.map(line => line.text)),
+      ...(currentIsHeading && {
+        level: Math.min(headingSizes.indexOf(Math.round(fontSize)) + 1 || 1, MAX_HEADING_LEVEL)
+      }),
+      fontSize,
+      bbox: toBoundingBox(current)
+    })
+    current = []
+  }
+
+  for (const line of lines) {
+    const isHeading = isHeadingLine(line, bodySize)
+    const previous = current[current.length - 1]
+    const startsNewBlock = !previous ||
+      isHeading !== currentIsHeading ||
+      line.column !== previous.column ||
+      Math.abs(line.fontSize - previous.fontSize) > bodySize * 0.1 ||
+      previous.y - line.y > Math.max(line.fontSize, previous.fontSize) * PARAGRAPH_GAP_RATIO
+
+    if (startsNewBlock) {
+      flush()
+      currentIsHeading = isHeading
+    }
+    current.push(line)
+  }
+  flush()
+
+  return {
+    text: blocks.map(block => block.text).join('\n\n'),
+    blocks
+  }
+}
@@ -0,0 +1,87 @@
+import * as pdfjsLib from 'pdfjs-dist'
+import { PageRuns, TextRun } from './pdfLayout'
+import { createOCRWorker } from './ocr'
+
+// Recognizes text on scanned pages by rendering them to a canvas and running
+// Tesseract on it. Runs inside the PDF extraction worker, so pages are
+// rendered to an OffscreenCanvas.
+
+// Render at 2x the PDF's 72 DPI - below ~150 DPI recognition quality drops sharply
+const OCR_RENDER_SCALE = 2
+
+export interface OCROptions {
+  // Fraction (0-1) of the pages recognized so far
+  onProgress?: (progress: number) => void
+}
+
+const renderPage = async (page: pdfjsLib.PDFPageProxy): Promise<OffscreenCanvas> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE })
+  const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height))
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas rendering is not supported in this browser')
+  }
+  // pdf.js draws to offscreen contexts just the same, but is typed for DOM canvases only
+  await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise
+  return canvas
+}
+
+export const recognizePDFPages = async (
+  pdf: pdfjsLib.PDFDocumentProxy,
+  pageNumbers: number[],
+  options: OCROptions = {}
+): Promise<PageRuns[]> => {
+  const { onProgress } = options
+
+  let completed = 0
+  const worker = await createOCRWorker(message => {
+    if (message.status === 'recognizing text') {
+      onProgress?.((completed + message.progress) / pageNumbers.length)
+    }
+  })
+
+  try {
+    const results: PageRuns[] = []
+
+    for (const pageNumber of pageNumbers) {
+      const page = await pdf.getPage(pageNumber)
+      const [viewX, viewY, viewRight, viewTop] = page.view
+      const height = viewTop - viewY
+      const canvas = await renderPage(page)
+
+      try {
+        const { data } = await worker.recognize(canvas, {}, { blocks: true })
+
+        // Tesseract reports pixel boxes from the top-left - convert each line
+        // to a run in PDF user space so it goes through the same layout pass
+        // as text extracted from the text layer
+        const runs: TextRun[] = (data.blocks || [])
+          .flatMap(block => block.paragraphs)
+          .flatMap(paragraph => paragraph.lines)
+          .filter(line => line.text.trim())
+          .map(line => ({
+            text: line.text.trim(),
+            x: line.bbox.x0 / OCR_RENDER_SCALE,
+            y: height - line.bbox.y1 / OCR_RENDER_SCALE,
+            width: (line.bbox.x1 - line.bbox.x0) / OCR_RENDER_SCALE,
+            fontSize: (line.bbox.y1 - line.bbox.y0) / OCR_RENDER_SCALE,
+            bold: false
+          }))
+
+        results.push({ pageNumber, runs, width: viewRight - viewX, height })
+      } finally {
+        // Release the bitmap right away - scans of long documents add up quickly
+        canvas.width = 0
+        canvas.height = 0
+        page.cleanup()
+      }
+
+      completed++
+      onProgress?.(completed / pageNumbers.length)
+    }
+
+    return results
+  } finally {
+    await worker.terminate()
+  }
+}
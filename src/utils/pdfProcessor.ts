@@ -1,44 +1,70 @@
-import * as pdfjsLib from 'pdfjs-dist'
-
-// Configure PDF.js worker with multiple fallback options
-const initializePDFWorker = () => {
-  try {
-    // Try to use the local worker from node_modules first (most reliable)
-    pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
-      'pdfjs-dist/build/pdf.worker.min.js',
-      import.meta.url
-    ).toString()
-  } catch (error) {
-    console.warn('Failed to load local PDF worker, trying CDN fallbacks...')
-    
-    // Fallback to CDN options
-    const cdnOptions = [
-      `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.js`,
-      `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.js`,
-      `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`
-    ]
-    
-    // Use the first CDN option as fallback
-    pdfjsLib.GlobalWorkerOptions.workerSrc = cdnOptions[0]
-  }
-}
+import { ContentPage, Chapter } from '../types/content'
+import type { PDFFigurePage } from './pdfFigures'
+import type { PDFWorkerRequest, PDFWorkerResponse } from '../workers/pdfExtraction.worker'
+
+// 'needed' on the first request, 'incorrect' after a wrong password
+export type PasswordRequestReason = 'needed' | 'incorrect'
 
-// Initialize the worker
-initializePDFWorker()
+// Default import limits - the upload flow passes the ones from Settings
+export const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024
+export const DEFAULT_MAX_PAGES = 100
+// Each figure is a vision model request, which takes a while on local hardware
+export const DEFAULT_MAX_FIGURE_PAGES = 30
 
-export interface PDFProcessingOptions {
+export interface PDFLoadingOptions {
   onProgress?: (progress: number) => void
-  maxPages?: number
+  // Milliseconds without progress before giving up
   timeout?: number
+  // Largest accepted file, in bytes
+  maxFileSize?: number
+  // Password for encrypted PDFs, tried before onPasswordRequired is asked
+  password?: string
+  // Asked for a password until the right one is given; resolve with null to give up.
+  // The signal aborts when processing stops first, so the prompt can be closed.
+  onPasswordRequired?: (reason: PasswordRequestReason, signal: AbortSignal) => Promise<string | null>
+  // Aborting stops extraction and rejects with a CANCELLED error
+  signal?: AbortSignal
+}
+
+export interface PDFProcessingOptions extends PDFLoadingOptions {
+  // Most pages to extract, counted from the start of pageNumbers
+  maxPages?: number
+  // 1-based pages to extract, all pages when omitted
+  pageNumbers?: number[]
+  // Recognize pages without a text layer (scans) with OCR, on by default
+  ocr?: boolean
+  // Render pages with pictures or diagrams so a vision model can describe
+  // them (see figureDescriptions.ts), off by default
+  figures?: boolean
+  maxFigurePages?: number
 }
 
 export interface PDFProcessingResult {
   text: string
+  pages: ContentPage[]
+  // Empty when the PDF has no outline (bookmarks)
+  chapters: Chapter[]
+  // Pages in the document
   pageCount: number
+  // Pages extracted after applying the page selection and maxPages
+  importedPageCount: number
+  // Selected pages left out because of maxPages
+  skippedPageCount: number
+  // Pages whose text was recognized with OCR
+  ocrPageCount: number
+  // Rendered pages with figures, empty unless figures was requested
+  figures: PDFFigurePage[]
   title?: string
   metadata?: any
 }
 
+export interface PDFInspection {
+  pageCount: number
+  title?: string
+  // The password that unlocked the document, to pass on to processPDFFile
+  password?: string
+}
+
 export class PDFProcessingError extends Error {
   constructor(message: string, public code: string) {
     super(message)
@@ -47,20 +73,13 @@ export class PDFProcessingError extends Error {
 }
 
 export const isPDFProcessingAvailable = (): boolean => {
-  try {
-    // Check if PDF.js is available and worker is configured
-    return !!(pdfjsLib && pdfjsLib.GlobalWorkerOptions.workerSrc)
-  } catch (error) {
-    return false
-  }
+  // Extraction runs in a module worker, with OffscreenCanvas for OCR rendering
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
 }
 
-export const processPDFFile = async (
-  file: File,
-  options: PDFProcessingOptions = {}
-): Promise<PDFProcessingResult> => {
-  const { onProgress, maxPages = 100, timeout = 60000 } = options
+const formatFileSize = (bytes: number) => `${Math.round(bytes / (1024 * 1024))}MB`
 
+const checkPDFFile = (file: File, maxFileSize: number) => {
   if (!isPDFProcessingAvailable()) {
     throw new PDFProcessingError('PDF processing is not available', 'UNAVAILABLE')
   }
@@ -69,112 +88,163 @@ export const processPDFFile = async (
     throw new PDFProcessingError('File is not a PDF', 'INVALID_TYPE')
   }
 
-  if (file.size > 50 * 1024 * 1024) { // 50MB limit
-    throw new PDFProcessingError('PDF file is too large (max 50MB)', 'FILE_TOO_LARGE')
+  if (file.size > maxFileSize) {
+    throw new PDFProcessingError(`PDF file is too large (max ${formatFileSize(maxFileSize)})`, 'FILE_TOO_LARGE')
   }
+}
 
-  onProgress?.(5)
+type PDFWorkerOutcome = Extract<PDFWorkerResponse, { type: 'result' | 'inspection' }>
 
-  try {
-    // Create a timeout promise
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new PDFProcessingError('PDF processing timed out', 'TIMEOUT')), timeout)
-    })
-
-    // Process the PDF
-    const processingPromise = (async () => {
-      const arrayBuffer = await file.arrayBuffer()
-      onProgress?.(15)
-
-      let pdf: pdfjsLib.PDFDocumentProxy
-      try {
-        pdf = await pdfjsLib.getDocument({
-          data: arrayBuffer,
-          useSystemFonts: true,
-          disableFontFace: false,
-          verbosity: 0 // Reduce console output
-        }).promise
-      } catch (error: any) {
-        if (error.name === 'PasswordException') {
-          throw new PDFProcessingError('PDF is password protected', 'PASSWORD_PROTECTED')
-        } else if (error.name === 'InvalidPDFException') {
-          throw new PDFProcessingError('Invalid or corrupted PDF file', 'INVALID_PDF')
-        } else {
-          throw new PDFProcessingError(`Failed to load PDF: ${error.message}`, 'LOAD_ERROR')
-        }
-      }
+// Extraction (pdf.js and OCR) runs in a dedicated worker so long documents
+// don't freeze the page. Terminating the worker is the only reliable way to
+// stop pdf.js and Tesseract mid-page, so timeouts and cancellation do that.
+const runPDFWorker = async (
+  file: File,
+  createRequest: (data: ArrayBuffer) => PDFWorkerRequest,
+  options: PDFLoadingOptions
+): Promise<PDFWorkerOutcome> => {
+  const { onProgress, timeout = 60000, onPasswordRequired, signal } = options
 
-      onProgress?.(25)
-
-      const numPages = Math.min(pdf.numPages, maxPages)
-      let fullText = ''
-      const metadata = await pdf.getMetadata().catch(() => null)
-
-      onProgress?.(30)
-
-      // Extract text from each page
-      for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-        try {
-          const page = await pdf.getPage(pageNum)
-          const textContent = await page.getTextContent({
-            includeMarkedContent: false,
-            disableCombineTextItems: false
-          })
-
-          // Combine text items with proper spacing
-          const pageText = textContent.items
-            .filter((item: any) => item.str && item.str.trim())
-            .map((item: any) => item.str)
-            .join(' ')
-            .replace(/\s+/g, ' ') // Normalize whitespace
-            .trim()
-
-          if (pageText) {
-            fullText += pageText + '\n\n'
-          }
-
-          // Update progress
-          const progress = 30 + ((pageNum / numPages) * 60)
-          onProgress?.(progress)
-
-          // Clean up page resources
-          page.cleanup()
-        } catch (pageError) {
-          console.warn(`Failed to process page ${pageNum}:`, pageError)
-          // Continue with other pages
-        }
-      }
+  if (signal?.aborted) {
+    throw new PDFProcessingError('PDF processing was cancelled', 'CANCELLED')
+  }
 
-      onProgress?.(95)
+  onProgress?.(5)
+  const data = await file.arrayBuffer()
+  onProgress?.(15)
+
+  const worker = new Worker(new URL('../workers/pdfExtraction.worker.ts', import.meta.url), { type: 'module' })
+  const send = (request: PDFWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer)
+
+  return new Promise<PDFWorkerOutcome>((resolve, reject) => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    // Closes an open password prompt once the worker is gone
+    const promptController = new AbortController()
+
+    const cleanup = () => {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', cancel)
+      worker.terminate()
+      promptController.abort()
+    }
 
-      // Clean up PDF resources
-      pdf.destroy()
+    const fail = (error: PDFProcessingError) => {
+      cleanup()
+      reject(error)
+    }
 
-      if (!fullText.trim()) {
-        throw new PDFProcessingError('No text content found in PDF', 'NO_TEXT')
-      }
+    // OCR can take minutes on long scans, so the timeout restarts whenever
+    // extraction makes progress instead of limiting the total time
+    const restartTimeout = () => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(() => fail(new PDFProcessingError('PDF processing timed out', 'TIMEOUT')), timeout)
+    }
 
-      onProgress?.(100)
+    function cancel() {
+      fail(new PDFProcessingError('PDF processing was cancelled', 'CANCELLED'))
+    }
 
-      return {
-        text: fullText.trim(),
-        pageCount: pdf.numPages,
-        title: metadata?.info?.Title || file.name.replace('.pdf', ''),
-        metadata: metadata?.info
+    worker.onmessage = (event: MessageEvent<PDFWorkerResponse>) => {
+      const response = event.data
+      switch (response.type) {
+        case 'progress':
+          restartTimeout()
+          onProgress?.(response.progress)
+          break
+        case 'password':
+          // Don't time out while the user is typing
+          clearTimeout(timeoutId)
+          onPasswordRequired?.(response.reason, promptController.signal)
+            .then(enteredPassword => {
+              if (promptController.signal.aborted) return
+              restartTimeout()
+              send({ type: 'password', password: enteredPassword })
+            })
+            .catch(error => fail(new PDFProcessingError(
+              error instanceof Error ? error.message : 'Password prompt failed',
+              'PROCESSING_ERROR'
+            )))
+          break
+        case 'result':
+        case 'inspection':
+          cleanup()
+          onProgress?.(100)
+          resolve(response)
+          break
+        case 'error':
+          fail(new PDFProcessingError(response.message, response.code))
+          break
       }
-    })()
-
-    // Race between processing and timeout
-    return await Promise.race([processingPromise, timeoutPromise])
-
-  } catch (error) {
-    if (error instanceof PDFProcessingError) {
-      throw error
-    } else if (error instanceof Error) {
-      throw new PDFProcessingError(`PDF processing failed: ${error.message}`, 'PROCESSING_ERROR')
-    } else {
-      throw new PDFProcessingError('Unknown error occurred during PDF processing', 'UNKNOWN_ERROR')
     }
+
+    worker.onerror = (event) => {
+      event.preventDefault()
+      fail(new PDFProcessingError(`PDF processing failed: ${event.message}`, 'PROCESSING_ERROR'))
+    }
+
+    signal?.addEventListener('abort', cancel)
+    restartTimeout()
+    send(createRequest(data), [data])
+  })
+}
+
+// Reads the page count (and unlocks the document) without extracting text
+export const inspectPDFFile = async (
+  file: File,
+  options: PDFLoadingOptions = {}
+): Promise<PDFInspection> => {
+  const { maxFileSize = DEFAULT_MAX_FILE_SIZE, password, onPasswordRequired } = options
+  checkPDFFile(file, maxFileSize)
+
+  const outcome = await runPDFWorker(file, data => ({
+    type: 'inspect',
+    data,
+    password,
+    promptForPassword: !!onPasswordRequired
+  }), options)
+
+  if (outcome.type !== 'inspection') {
+    throw new PDFProcessingError('Unexpected response from the PDF worker', 'PROCESSING_ERROR')
+  }
+  return {
+    ...outcome.inspection,
+    title: outcome.inspection.title || file.name.replace('.pdf', '')
+  }
+}
+
+export const processPDFFile = async (
+  file: File,
+  options: PDFProcessingOptions = {}
+): Promise<PDFProcessingResult> => {
+  const {
+    maxFileSize = DEFAULT_MAX_FILE_SIZE,
+    maxPages = DEFAULT_MAX_PAGES,
+    pageNumbers,
+    ocr = true,
+    figures = false,
+    maxFigurePages = DEFAULT_MAX_FIGURE_PAGES,
+    password,
+    onPasswordRequired
+  } = options
+  checkPDFFile(file, maxFileSize)
+
+  const outcome = await runPDFWorker(file, data => ({
+    type: 'extract',
+    data,
+    maxPages,
+    pageNumbers,
+    ocr,
+    maxFigurePages: figures ? maxFigurePages : 0,
+    password,
+    promptForPassword: !!onPasswordRequired
+  }), options)
+
+  if (outcome.type !== 'result') {
+    throw new PDFProcessingError('Unexpected response from the PDF worker', 'PROCESSING_ERROR')
+  }
+  return {
+    ...outcome.result,
+    title: outcome.result.title || file.name.replace('.pdf', '')
   }
 }
 
@@ -195,15 +265,23 @@ export const getErrorMessage = (error: PDFProcessingError): string => {
     case 'INVALID_TYPE':
       return 'Please select a valid PDF file.'
     case 'FILE_TOO_LARGE':
-      return 'PDF file is too large. Please use a file smaller than 50MB.'
+      return `${error.message}. Use a smaller file or raise the limit in Settings.`
     case 'PASSWORD_PROTECTED':
-      return 'This PDF is password protected. Please use an unprotected PDF.'
+      return 'This PDF is password protected. Enter its password to open it.'
+    case 'INCORRECT_PASSWORD':
+      return 'The password for this PDF is incorrect.'
+    case 'PASSWORD_CANCELLED':
+      return 'The PDF was not imported because no password was entered.'
     case 'INVALID_PDF':
       return 'This PDF file appears to be corrupted or invalid.'
     case 'NO_TEXT':
-      return 'No text content was found in this PDF. It might be an image-only PDF.'
+      return 'No text content was found in this PDF, not even with text recognition (OCR).'
+    case 'OCR_FAILED':
+      return `This PDF is a scan and text recognition (OCR) failed: ${error.message}`
     case 'TIMEOUT':
       return 'PDF processing timed out. Please try with a smaller file.'
+    case 'CANCELLED':
+      return 'PDF processing was cancelled.'
     case 'LOAD_ERROR':
     case 'PROCESSING_ERROR':
       return `PDF processing failed: ${error.message}`
@@ -213,7 +291,10 @@ export const getErrorMessage = (error: PDFProcessingError): string => {
 }
 
 // Utility function to validate PDF file before processing
-export const validatePDFFile = (file: File): { valid: boolean; error?: string } => {
+export const validatePDFFile = (
+  file: File,
+  maxFileSize = DEFAULT_MAX_FILE_SIZE
+): { valid: boolean; error?: string } => {
   if (!file) {
     return { valid: false, error: 'No file provided' }
   }
@@ -226,8 +307,8 @@ export const validatePDFFile = (file: File): { valid: boolean; error?: string }
     return { valid: false, error: 'File is empty' }
   }
 
-  if (file.size > 50 * 1024 * 1024) {
-    return { valid: false, error: 'File is too large (max 50MB)' }
+  if (file.size > maxFileSize) {
+    return { valid: false, error: `File is too large (max ${formatFileSize(maxFileSize)})` }
   }
 
   return { valid: true }
@@ -0,0 +1,76 @@
+import { ContentChunk } from '../types/content'
+import { chunkContent, ChunkSource } from './chunking'
+
+// Okapi BM25 keyword retrieval over content chunks
+
+const K1 = 1.2
+const B = 0.75
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'did', 'do', 'does', 'for',
+  'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my',
+  'of', 'on', 'or', 'so', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why',
+  'will', 'with', 'would', 'you', 'your', 'about', 'explain', 'tell'
+])
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+    // Crude plural folding so "cells" matches "cell"
+    .map(term => term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term)
+
+export interface RetrievedChunk {
+  chunk: ContentChunk
+  score: number
+}
+
+export const retrieveChunks = (chunks: ContentChunk[], query: string, limit = 4): RetrievedChunk[] => {
+  const queryTerms = [...new Set(tokenize(query))]
+  if (queryTerms.length === 0 || chunks.length === 0) return []
+
+  const documents = chunks.map(chunk => tokenize(chunk.text))
+  const averageLength = documents.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1
+
+  const documentFrequency = new Map<string, number>()
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+    }
+  }
+
+  return documents
+    .map((terms, index) => {
+      const termFrequency = new Map<string, number>()
+      for (const term of terms) {
+        termFrequency.set(term, (termFrequency.get(term) || 0) + 1)
+      }
+
+      const score = queryTerms.reduce((total, term) => {
+        const frequency = termFrequency.get(term) || 0
+        if (!frequency) return total
+        const df = documentFrequency.get(term) || 0
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5))
+        return total + idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * terms.length / averageLength))
+      }, 0)
+
+      return { chunk: chunks[index], score }
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+// Ranks the passages of several content items together, so scores are comparable across items
+export const retrieveLibraryChunks = (
+  contents: ChunkSource[],
+  query: string,
+  limit = 4
+): (RetrievedChunk & { contentId: string })[] => {
+  const owners = new Map<string, string>()
+  const chunks = contents.flatMap(content => chunkContent(content).map(chunk => {
+    owners.set(chunk.id, content.id)
+    return chunk
+  }))
+  return retrieveChunks(chunks, query, limit).map(result => ({ ...result, contentId: owners.get(result.chunk.id)! }))
+}
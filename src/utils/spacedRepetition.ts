@@ -0,0 +1,85 @@
+import { Flashcard, ReviewGrade } from '../types/content'
+
+// SM-2 scheduling (SuperMemo 2) with Anki-style grades mapped onto its 0-5 quality scale
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DEFAULT_EASE_FACTOR = 2.5
+const MIN_EASE_FACTOR = 1.3
+const HARD_INTERVAL_MULTIPLIER = 1.2
+const EASY_BONUS = 1.3
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+}
+
+const GRADE_DIFFICULTY: Record<ReviewGrade, Flashcard['difficulty']> = {
+  again: 'hard',
+  hard: 'hard',
+  good: 'medium',
+  easy: 'easy'
+}
+
+export const isCardDue = (card: Flashcard, now = new Date()): boolean =>
+  !card.dueDate || card.dueDate.getTime() <= now.getTime()
+
+export const getDueCards = (cards: Flashcard[], now = new Date()): Flashcard[] =>
+  cards
+    .filter(card => isCardDue(card, now))
+    .sort((a, b) => (a.dueDate?.getTime() ?? 0) - (b.dueDate?.getTime() ?? 0))
+
+// Returns the card with its next interval (in days), ease and due date applied
+export const scheduleReview = (card: Flashcard, grade: ReviewGrade, now = new Date()): Flashcard => {
+  const quality = GRADE_QUALITY[grade]
+  const previousInterval = card.interval ?? 0
+  const previousEase = card.easeFactor ?? DEFAULT_EASE_FACTOR
+  let repetitions = card.repetitions ?? 0
+  let interval: number
+
+  if (quality < 3) {
+    // Lapsed: start over and show the card again in this session
+    repetitions = 0
+    interval = 0
+  } else {
+    if (repetitions === 0) {
+      interval = 1
+    } else if (repetitions === 1) {
+      interval = 6
+    } else {
+      interval = Math.round(previousInterval * previousEase)
+    }
+
+    if (grade === 'hard') {
+      interval = Math.max(1, Math.round(Math.max(previousInterval, 1) * HARD_INTERVAL_MULTIPLIER))
+    } else if (grade === 'easy') {
+      interval = Math.round(interval * EASY_BONUS)
+    }
+
+    repetitions++
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    previousEase + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  )
+
+  return {
+    ...card,
+    difficulty: GRADE_DIFFICULTY[grade],
+    lastReviewed: now,
+    dueDate: new Date(now.getTime() + interval * DAY_MS),
+    interval,
+    easeFactor,
+    repetitions
+  }
+}
+
+export const formatInterval = (days: number): string => {
+  if (days < 1) return '<1d'
+  if (days < 30) return `${days}d`
+  if (days < 365) return `${Math.round(days / 30)}mo`
+  return `${(days / 365).toFixed(1)}y`
+}
@@ -0,0 +1,142 @@
+import { pipeline, env, AutomaticSpeechRecognitionPipeline } from '@huggingface/transformers'
+import ortWasmUrl from 'onnxruntime-web-wasm?url'
+import { TranscriptSegment } from '../types/content'
+import { AUDIO_SAMPLE_RATE, AudioProcessingError } from './audioProcessor'
+
+// Runs Whisper inside the transcription worker (see
+// workers/transcription.worker.ts). The model is served from public/models
+// and the ONNX Runtime WASM binary is bundled, so nothing is downloaded at
+// runtime - recordings never leave the machine.
+
+// Keep in sync with scripts/download-whisper-model.mjs
+export const WHISPER_MODEL = 'Xenova/whisper-tiny'
+
+// Audio is transcribed in windows so progress can be reported; Whisper
+// itself works on 30 second chunks within each window
+const WINDOW_SECONDS = 300
+// Windows end at the quietest moment of their last seconds, so words aren't cut in half
+const BOUNDARY_SEARCH_SECONDS = 5
+const FRAME_SECONDS = 0.1
+
+// Whisper labels silence and music instead of transcribing it, e.g. "[Music]"
+const NON_SPEECH = /^\s*[[(][^\])]*[\])]\s*$/
+
+const MODEL_PATH = `${import.meta.env.BASE_URL}models/`
+
+env.allowRemoteModels = false
+env.allowLocalModels = true
+env.localModelPath = MODEL_PATH
+// The files are local already - don't copy them into the Cache API
+env.useBrowserCache = false
+if (env.backends.onnx.wasm) {
+  env.backends.onnx.wasm.wasmPaths = { wasm: new URL(ortWasmUrl, self.location.href).href }
+  // Threads need SharedArrayBuffer, which requires cross-origin isolation
+  env.backends.onnx.wasm.numThreads = 1
+}
+
+interface RecognizedChunk {
+  timestamp: [number, number | null]
+  text: string
+}
+
+export interface SpeechRecognitionOptions {
+  // 0-100
+  onProgress: (progress: number) => void
+}
+
+// The dev server answers unknown paths with index.html, so check the
+// config actually parses rather than just its status
+const checkModelInstalled = async () => {
+  try {
+    const response = await fetch(`${MODEL_PATH}${WHISPER_MODEL}/config.json`)
+    await response.json()
+  } catch {
+    throw new AudioProcessingError(`Whisper model ${WHISPER_MODEL} not found in ${MODEL_PATH}`, 'MODEL_MISSING')
+  }
+}
+
+// Sample index of the quietest frame in the seconds before `target`
+const findQuietSplit = (audio: Float32Array, target: number): number => {
+  const frameLength = Math.round(FRAME_SECONDS * AUDIO_SAMPLE_RATE)
+  const searchStart = Math.max(0, target - BOUNDARY_SEARCH_SECONDS * AUDIO_SAMPLE_RATE)
+  let quietest = target
+  let lowestEnergy = Infinity
+
+  for (let start = searchStart; start + frameLength <= target; start += frameLength) {
+    let energy = 0
+    for (let i = start; i < start + frameLength; i++) {
+      energy += audio[i] * audio[i]
+    }
+    if (energy < lowestEnergy) {
+      lowestEnergy = energy
+      quietest = start + Math.round(frameLength / 2)
+    }
+  }
+  return quietest
+}
+
+export const recognizeSpeech = async (
+  audio: Float32Array,
+  options: SpeechRecognitionOptions
+): Promise<TranscriptSegment[]> => {
+  const { onProgress } = options
+
+  await checkModelInstalled()
+  onProgress(2)
+
+  let transcriber: AutomaticSpeechRecognitionPipeline
+  try {
+    // Naming the task up front keeps TypeScript from expanding every pipeline's options
+    transcriber = await pipeline<'automatic-speech-recognition'>('automatic-speech-recognition', WHISPER_MODEL, {
+      dtype: 'q8',
+      device: 'wasm'
+    })
+  } catch (error) {
+    console.error('Failed to load Whisper:', error)
+    throw new AudioProcessingError(
+      `Failed to load the speech recognition model: ${error instanceof Error ? error.message : String(error)}`,
+      'MODEL_MISSING'
+    )
+  }
+  onProgress(10)
+
+  const segments: TranscriptSegment[] = []
+  const windowLength = WINDOW_SECONDS * AUDIO_SAMPLE_RATE
+  let start = 0
+
+  try {
+    while (start < audio.length) {
+      const end = start + windowLength >= audio.length
+        ? audio.length
+        : findQuietSplit(audio, start + windowLength)
+      const offset = start / AUDIO_SAMPLE_RATE
+      const windowDuration = (end - start) / AUDIO_SAMPLE_RATE
+
+      const output = await transcriber(audio.subarray(start, end), {
+        return_timestamps: true,
+        chunk_length_s: 30,
+        stride_length_s: 5
+      })
+      const chunks = ((Array.isArray(output) ? output[0] : output) as { chunks?: RecognizedChunk[] }).chunks || []
+
+      for (const chunk of chunks) {
+        const text = chunk.text.trim()
+        if (!text || NON_SPEECH.test(text)) continue
+        const [chunkStart, chunkEnd] = chunk.timestamp
+        segments.push({
+          start: offset + chunkStart,
+          // The last chunk of a window may be left open
+          end: offset + (chunkEnd ?? windowDuration),
+          text
+        })
+      }
+
+      start = end
+      onProgress(10 + (start / audio.length) * 90)
+    }
+  } finally {
+    await transcriber.dispose()
+  }
+
+  return segments
+}
@@ -0,0 +1,85 @@
+import { z } from 'zod'
+
+export interface StructuredGenerateOptions {
+  // Sends the prompt with Ollama's `format` set to the given JSON schema
+  generate: (prompt: string, format: object) => Promise<string>
+  maxAttempts?: number
+  signal?: AbortSignal
+  onAttempt?: (attempt: number) => void
+}
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public code: string, public lastResponse?: string) {
+    super(message)
+    this.name = 'StructuredOutputError'
+  }
+}
+
+// Ollama ignores the $schema keyword, and some models handle smaller schemas better
+export const toOllamaFormat = (schema: z.ZodType): object => {
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema) as Record<string, unknown>
+  return jsonSchema
+}
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues
+    .slice(0, 10)
+    .map(issue => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('\n')
+
+const buildRetryPrompt = (prompt: string, response: string, problem: string) =>
+  `${prompt}
+
+Your previous response was not valid:
+${response.slice(0, 2000)}
+
+Problems:
+${problem}
+
+Respond again with JSON only, matching the required schema exactly.`
+
+// Generates JSON constrained to `schema` and validates it, re-prompting with the
+// validation errors when the model still returns malformed output
+export const generateStructured = async <T>(
+  schema: z.ZodType<T>,
+  prompt: string,
+  options: StructuredGenerateOptions
+): Promise<T> => {
+  const { generate, maxAttempts = 3, signal, onAttempt } = options
+  const format = toOllamaFormat(schema)
+  let currentPrompt = prompt
+  let lastResponse = ''
+  let lastProblem = ''
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (signal?.aborted) {
+      throw new DOMException('Generation was cancelled.', 'AbortError')
+    }
+    onAttempt?.(attempt)
+
+    lastResponse = await generate(currentPrompt, format)
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(lastResponse)
+    } catch (error) {
+      lastProblem = `- Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`
+      currentPrompt = buildRetryPrompt(prompt, lastResponse, lastProblem)
+      continue
+    }
+
+    const result = schema.safeParse(parsed)
+    if (result.success) {
+      return result.data
+    }
+
+    lastProblem = describeIssues(result.error)
+    currentPrompt = buildRetryPrompt(prompt, lastResponse, lastProblem)
+  }
+
+  throw new StructuredOutputError(
+    `The model returned invalid output after ${maxAttempts} attempts:\n${lastProblem}`,
+    'INVALID_OUTPUT',
+    lastResponse
+  )
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod'
+import { Flashcard, QuizQuestion } from '../types/content'
+
+// Shapes the model is asked to produce. Ids and scheduling fields are added
+// afterwards, so they are kept out of the schemas sent to Ollama.
+
+export const flashcardSetSchema = z.object({
+  flashcards: z.array(z.object({
+    front: z.string().trim().min(1, 'Question must not be empty'),
+    back: z.string().trim().min(1, 'Answer must not be empty')
+  })).min(1, 'At least one flashcard is required')
+})
+
+export const quizSchema = z.object({
+  questions: z.array(z.object({
+    question: z.string().trim().min(1, 'Question must not be empty'),
+    options: z.array(z.string().trim().min(1)).length(4, 'Exactly 4 options are required'),
+    correctAnswer: z.number().int().min(0).max(3).describe('Index (0-3) of the correct option'),
+    explanation: z.string().trim()
+  })).min(1, 'At least one question is required')
+})
+
+export type FlashcardSet = z.infer<typeof flashcardSetSchema>
+export type Quiz = z.infer<typeof quizSchema>
+
+// Items generated for a single chapter are tagged with it, and their ids are
+// scoped to it so they do not collide with the whole-document ones
+const getIdPrefix = (contentId: string, chapterId?: string) =>
+  chapterId ? `${contentId}-${chapterId}` : contentId
+
+export const toFlashcards = (set: FlashcardSet, contentId: string, chapterId?: string): Flashcard[] =>
+  set.flashcards.map((card, index) => ({
+    id: `${getIdPrefix(contentId, chapterId)}-flashcard-${index}`,
+    front: card.front,
+    back: card.back,
+    ...(chapterId && { chapterId }),
+    difficulty: 'medium'
+  }))
+
+export const toQuizQuestions = (quiz: Quiz, contentId: string, chapterId?: string): QuizQuestion[] =>
+  quiz.questions.map((question, index) => ({
+    id: `${getIdPrefix(contentId, chapterId)}-quiz-${index}`,
+    question: question.question,
+    options: question.options,
+    correctAnswer: question.correctAnswer,
+    explanation: question.explanation,
+    ...(chapterId && { chapterId })
+  }))
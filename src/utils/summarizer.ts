@@ -0,0 +1,146 @@
+// Map-reduce summarization for documents that do not fit in the model's
+// context window: summarize fixed-size chunks, then merge the partial
+// summaries level by level until a single summary remains.
+
+export interface SummaryProgress {
+  phase: 'map' | 'reduce'
+  level: number
+  completed: number
+  total: number
+}
+
+export interface SummarizeOptions {
+  // Context window of the model in tokens
+  contextLength: number
+  generate: (prompt: string, onToken?: (token: string, text: string) => void) => Promise<string>
+  onProgress?: (progress: SummaryProgress) => void
+  // Streams the output of the step that is currently running
+  onToken?: (token: string, text: string) => void
+  signal?: AbortSignal
+}
+
+// Rough heuristic for English text with Llama-style tokenizers
+const CHARS_PER_TOKEN = 4
+
+// Share of the context window reserved for instructions (system prompt
+// included) and the generated summary
+const RESPONSE_TOKEN_RESERVE = 512
+const PROMPT_OVERHEAD_TOKENS = 160
+
+const MIN_CHUNK_TOKENS = 256
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN)
+
+export const getChunkTokenBudget = (contextLength: number): number =>
+  Math.max(MIN_CHUNK_TOKENS, contextLength - RESPONSE_TOKEN_RESERVE - PROMPT_OVERHEAD_TOKENS)
+
+const splitOversized = (text: string, maxChars: number): string[] => {
+  const sentences = text.match(/[^.!?]+[.!?]+(\s+|$)|[^.!?]+$/g) || [text]
+  const parts: string[] = []
+  let current = ''
+
+  for (const sentence of sentences) {
+    if (sentence.length > maxChars) {
+      if (current) parts.push(current)
+      current = ''
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        parts.push(sentence.slice(i, i + maxChars))
+      }
+    } else if (current.length + sentence.length > maxChars) {
+      parts.push(current)
+      current = sentence
+    } else {
+      current += sentence
+    }
+  }
+
+  if (current) parts.push(current)
+  return parts
+}
+
+// Splits on paragraph boundaries where possible so chunks stay coherent
+export const splitIntoChunks = (text: string, maxTokens: number): string[] => {
+  const maxChars = maxTokens * CHARS_PER_TOKEN
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => paragraph.length > maxChars ? splitOversized(paragraph, maxChars) : [paragraph])
+
+  const chunks: string[] = []
+  let current = ''
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current)
+      current = paragraph
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph
+    }
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
+
+const buildSummaryPrompt = (text: string) =>
+  `Please provide a concise summary of the following content. Focus on the key points and main ideas:\n\n${text}`
+
+const buildChunkPrompt = (text: string, index: number, total: number) =>
+  `The following is part ${index + 1} of ${total} of a longer document. Summarize the key points and main ideas of this part. Keep important names, definitions and figures:\n\n${text}`
+
+const buildMergePrompt = (summaries: string) =>
+  `The following are summaries of consecutive parts of one document. Combine them into a single coherent summary that covers the key points and main ideas without repeating yourself:\n\n${summaries}`
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('Summarization was cancelled.', 'AbortError')
+  }
+}
+
+export const summarizeDocument = async (text: string, options: SummarizeOptions): Promise<string> => {
+  const { contextLength, generate, onProgress, onToken, signal } = options
+  const budget = getChunkTokenBudget(contextLength)
+
+  if (estimateTokens(text) <= budget) {
+    onProgress?.({ phase: 'map', level: 0, completed: 0, total: 1 })
+    const summary = await generate(buildSummaryPrompt(text), onToken)
+    onProgress?.({ phase: 'map', level: 0, completed: 1, total: 1 })
+    return summary.trim()
+  }
+
+  // Map: summarize every chunk independently
+  const chunks = splitIntoChunks(text, budget)
+  let summaries: string[] = []
+
+  for (let i = 0; i < chunks.length; i++) {
+    throwIfAborted(signal)
+    onProgress?.({ phase: 'map', level: 0, completed: i, total: chunks.length })
+    summaries.push((await generate(buildChunkPrompt(chunks[i], i, chunks.length), onToken)).trim())
+  }
+  onProgress?.({ phase: 'map', level: 0, completed: chunks.length, total: chunks.length })
+
+  // Reduce: merge as many partial summaries as fit in one prompt, repeat until one remains
+  let level = 1
+  while (summaries.length > 1) {
+    const groups = splitIntoChunks(summaries.join('\n\n'), budget)
+
+    // Summaries that no longer shrink would loop forever - merge pairwise instead
+    const mergeGroups = groups.length >= summaries.length
+      ? Array.from({ length: Math.ceil(summaries.length / 2) }, (_, i) => summaries.slice(i * 2, i * 2 + 2).join('\n\n'))
+      : groups
+
+    const merged: string[] = []
+    for (let i = 0; i < mergeGroups.length; i++) {
+      throwIfAborted(signal)
+      onProgress?.({ phase: 'reduce', level, completed: i, total: mergeGroups.length })
+      merged.push((await generate(buildMergePrompt(mergeGroups[i]), onToken)).trim())
+    }
+    onProgress?.({ phase: 'reduce', level, completed: mergeGroups.length, total: mergeGroups.length })
+
+    summaries = merged
+    level++
+  }
+
+  return summaries[0] || ''
+}
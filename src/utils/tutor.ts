@@ -0,0 +1,49 @@
+import { ChatMessage, Citation, ContentChunk } from '../types/content'
+import type { OllamaMessage } from '../contexts/OllamaContext'
+import { formatChunkLocation } from './chunking'
+import { TUTOR_SYSTEM_PROMPT } from './systemPrompts'
+
+// Only the most recent turns are replayed to keep the prompt inside the context window
+const HISTORY_MESSAGES = 6
+const EXCERPT_LENGTH = 160
+
+// Earlier turns are replayed as they were; sources only go with the new
+// question, since their [n] numbering is per question
+export const buildTutorMessages = (
+  title: string,
+  question: string,
+  sources: ContentChunk[],
+  history: ChatMessage[]
+): OllamaMessage[] => {
+  const sourceList = sources
+    .map((chunk, index) => `[${index + 1}] (${formatChunkLocation(chunk)})\n${chunk.text}`)
+    .join('\n\n')
+
+  return [
+    { role: 'system', content: `${TUTOR_SYSTEM_PROMPT}\nThe student is studying "${title}".` },
+    ...history
+      .slice(-HISTORY_MESSAGES)
+      .map(message => ({ role: message.role, content: message.content })),
+    { role: 'user', content: `Sources:\n${sourceList}\n\nQuestion: ${question}` }
+  ]
+}
+
+const toExcerpt = (text: string) =>
+  text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trim()}...` : text
+
+// Maps the [n] markers in an answer back to the passages they refer to
+export const extractCitations = (answer: string, sources: ContentChunk[]): Citation[] => {
+  const cited = new Set<number>()
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const index = Number(match[1]) - 1
+    if (sources[index]) cited.add(index)
+  }
+
+  return [...cited]
+    .sort((a, b) => a - b)
+    .map(index => ({
+      chunkId: sources[index].id,
+      label: `[${index + 1}] ${formatChunkLocation(sources[index])}`,
+      excerpt: toExcerpt(sources[index].text)
+    }))
+}
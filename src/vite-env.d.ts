@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+declare module 'turndown-plugin-gfm' {
+  import TurndownService from 'turndown'
+
+  export const gfm: TurndownService.Plugin
+  export const tables: TurndownService.Plugin
+  export const strikethrough: TurndownService.Plugin
+}
@@ -0,0 +1,78 @@
+import { extractPDF, inspectPDF } from '../utils/pdfExtraction'
+import { PDFInspection, PDFProcessingError, PDFProcessingResult, PasswordRequestReason } from '../utils/pdfProcessor'
+
+// Messages between processPDFFile and this worker. The main thread stops the
+// worker by terminating it, which also tears down pdf.js and Tesseract.
+
+export type PDFWorkerRequest =
+  | {
+      type: 'extract'
+      data: ArrayBuffer
+      maxPages: number
+      pageNumbers?: number[]
+      ocr: boolean
+      maxFigurePages: number
+      password?: string
+      // Whether the main thread can ask the user for a password
+      promptForPassword: boolean
+    }
+  | { type: 'inspect'; data: ArrayBuffer; password?: string; promptForPassword: boolean }
+  | { type: 'password'; password: string | null }
+
+export type PDFWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'password'; reason: PasswordRequestReason }
+  | { type: 'result'; result: PDFProcessingResult }
+  | { type: 'inspection'; inspection: PDFInspection }
+  | { type: 'error'; code: string; message: string }
+
+const post = (message: PDFWorkerResponse) => self.postMessage(message)
+
+let resolvePassword: ((password: string | null) => void) | null = null
+
+self.onmessage = async (event: MessageEvent<PDFWorkerRequest>) => {
+  const request = event.data
+
+  if (request.type === 'password') {
+    resolvePassword?.(request.password)
+    resolvePassword = null
+    return
+  }
+
+  const onPasswordRequired = request.promptForPassword
+    ? (reason: PasswordRequestReason) => new Promise<string | null>(resolve => {
+        resolvePassword = resolve
+        post({ type: 'password', reason })
+      })
+    : undefined
+
+  try {
+    if (request.type === 'inspect') {
+      const inspection = await inspectPDF(request.data, { password: request.password, onPasswordRequired })
+      post({ type: 'inspection', inspection })
+      return
+    }
+
+    const result = await extractPDF(request.data, {
+      maxPages: request.maxPages,
+      pageNumbers: request.pageNumbers,
+      ocr: request.ocr,
+      maxFigurePages: request.maxFigurePages,
+      password: request.password,
+      onProgress: (progress) => post({ type: 'progress', progress }),
+      onPasswordRequired
+    })
+    post({ type: 'result', result })
+  } catch (error) {
+    // Errors lose their class when posted - send the code and rebuild them
+    if (error instanceof PDFProcessingError) {
+      post({ type: 'error', code: error.code, message: error.message })
+    } else {
+      post({
+        type: 'error',
+        code: 'PROCESSING_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error occurred during PDF processing'
+      })
+    }
+  }
+}
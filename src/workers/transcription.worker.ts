@@ -0,0 +1,36 @@
+import { recognizeSpeech } from '../utils/speechRecognition'
+import { AudioProcessingError } from '../utils/audioProcessor'
+import { TranscriptSegment } from '../types/content'
+
+// Messages between processAudioFile and this worker. The main thread decodes
+// the recording (Web Audio is not available in workers) and stops the worker
+// by terminating it.
+
+export type TranscriptionWorkerRequest = { type: 'transcribe'; audio: Float32Array }
+
+export type TranscriptionWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; segments: TranscriptSegment[] }
+  | { type: 'error'; code: string; message: string }
+
+const post = (message: TranscriptionWorkerResponse) => self.postMessage(message)
+
+self.onmessage = async (event: MessageEvent<TranscriptionWorkerRequest>) => {
+  try {
+    const segments = await recognizeSpeech(event.data.audio, {
+      onProgress: (progress) => post({ type: 'progress', progress })
+    })
+    post({ type: 'result', segments })
+  } catch (error) {
+    // Errors lose their class when posted - send the code and rebuild them
+    if (error instanceof AudioProcessingError) {
+      post({ type: 'error', code: error.code, message: error.message })
+    } else {
+      post({
+        type: 'error',
+        code: 'TRANSCRIPTION_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error occurred during transcription'
+      })
+    }
+  }
+}
@@ -1,12 +1,39 @@
 import { defineConfig } from 'vite';
+import type { PreRenderedAsset } from 'rollup';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 
+// Tesseract loads language data by file name from a directory, so these
+// assets must keep their names
+const assetFileNames = (asset: PreRenderedAsset) =>
+  asset.names?.some((name) => name.endsWith('.traineddata.gz'))
+    ? 'tesseract/[name][extname]'
+    : 'assets/[name]-[hash][extname]';
+
 export default defineConfig({
   plugins: [react()],
   resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src'),
+    alias: [
+      { find: '@', replacement: path.resolve(__dirname, './src') },
+      // ONNX Runtime's WASM binary isn't in the package exports. Whisper
+      // transcription imports it through this alias (with ?url, hence the
+      // pattern) so it is bundled instead of fetched from a CDN.
+      {
+        find: /^onnxruntime-web-wasm(?=\?|$)/,
+        replacement: path.resolve(__dirname, './node_modules/onnxruntime-web/dist/ort-wasm-simd-threaded.jsep.wasm'),
+      },
+    ],
+  },
+  build: {
+    rollupOptions: {
+      output: { assetFileNames },
+    },
+  },
+  // PDF extraction runs in a module worker (see src/workers)
+  worker: {
+    format: 'es',
+    rollupOptions: {
+      output: { assetFileNames },
     },
   },
   server: {
@@ -15,4 +42,4 @@ export default defineConfig({
     host: true,
     allowedHosts: true,
   }
-});
\ No newline at end of file
+});